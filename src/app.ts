@@ -1,8 +1,22 @@
 import { Nango, ProxyConfiguration } from '@nangohq/node';
-import { LinkedInIntegration } from './integrations/linkedin/index';
+import { LinkedInIntegration, LINKEDIN_POST_JOB, LinkedInPostJob } from './integrations/linkedin/index';
 import { GoogleSheetsIntegration } from './integrations/google-sheets/index';
 import { GmailIntegration } from './integrations/google-mail/index';
 import { OpenAIIntegration } from './integrations/openai';
+import { KuweTransport } from './transport';
+import { Integration, IntegrationOptions } from './integrations/base';
+import {
+    IntegrationConstructor,
+    IntegrationFactory,
+    IntegrationRegistry,
+    builtInIntegrations,
+    integrationFactory
+} from './integrations/registry';
+import { RetryPolicy, mergeRetryPolicies } from './retry';
+import { CredentialCache, InMemoryCredentialCache } from './credentials';
+import { Scheduler } from './scheduler';
+import { TtlCache } from './cache';
+import { InMemorySyncStateStore, SyncStateStore } from './integrations/google-mail/sync';
 
 /**
  * Configuration interface for KuweAI proxy requests
@@ -10,48 +24,190 @@ import { OpenAIIntegration } from './integrations/openai';
  */
 export interface KuweProxyConfig extends Omit<ProxyConfiguration, 'connectionId'> { }
 
+/**
+ * Per-integration configuration
+ * connectionId overrides the client's connection for this integration only
+ */
+export interface IntegrationConfig extends IntegrationOptions {
+    connectionId?: string;
+}
+
 /**
  * Configuration options for KuweAI constructor
  */
 export interface KuweAIConfig {
     connectionId?: string;
     secretKey?: string;
+    host?: string;
+    transport?: KuweTransport;
+    retry?: RetryPolicy;
+    credentialCache?: CredentialCache;
+    profileCache?: TtlCache<unknown>;
+    syncStateStore?: SyncStateStore;
+    scheduler?: Scheduler;
+    integrations?: Record<string, IntegrationConfig>;
 }
 
 export class KuweAI {
-    nango: Nango;
+    transport: KuweTransport;
     connectionId: string;
+    private config: KuweAIConfig;
+
+    // Integration instances, created on first access
+    private instances = new Map<string, unknown>();
 
-    // Integration instances
-    public readonly linkedin: LinkedInIntegration;
-    public readonly googleSheets: GoogleSheetsIntegration;
-    public readonly gmail: GmailIntegration;
-    public readonly openai: OpenAIIntegration;
+    private static factories = new Map<string, IntegrationFactory>(Object.entries(builtInIntegrations));
+
+    /**
+     * Register an integration so it can be accessed with `kuwe.integration(name)`
+     * It gets the same transport, connection and options plumbing as the built-in integrations
+     * @param name - Name to access the integration by (also the key for its options in `config.integrations`)
+     * @param integration - Integration subclass
+     */
+    static use<T extends Integration>(name: string, integration: IntegrationConstructor<T>): typeof KuweAI {
+        KuweAI.factories.set(name, integrationFactory(integration));
+        return KuweAI;
+    }
 
     /**
      * Creates a new KuweAI instance
      * @param config - Optional configuration object
      * @param config.connectionId - Nango connection ID (falls back to NANGO_CONNECTION_ID env var)
      * @param config.secretKey - Nango secret key (falls back to NANGO_SECRET_KEY env var)
+     * @param config.host - Nango API host (defaults to Nango Cloud)
+     * @param config.transport - Transport to use instead of a Nango client (e.g. FakeTransport in tests)
+     * @param config.retry - Retry policy applied to all integrations
+     * @param config.credentialCache - Store for connection credentials (defaults to an in-memory cache shared with scoped clients)
+     * @param config.profileCache - Cache for the profiles of connected accounts (defaults to an in-memory cache shared with scoped clients)
+     * @param config.syncStateStore - Store for mailbox sync cursors (defaults to an in-memory store shared with scoped clients)
+     * @param config.scheduler - Scheduler for scheduled posts (defaults to one keeping jobs in .kuwe/jobs.json, shared with scoped clients; the store of the file is shared by all clients)
+     * @param config.integrations - Per-integration options and connection IDs keyed by integration name (e.g. 'google-sheet')
      */
     constructor(config: KuweAIConfig = {}) {
         const connectionId = config.connectionId || process.env.NANGO_CONNECTION_ID;
         const secretKey = config.secretKey || process.env.NANGO_SECRET_KEY;
 
-        if (!connectionId || !secretKey) {
+        if (!connectionId || (!secretKey && !config.transport)) {
             throw new Error(
                 'Nango connection ID and secret key are required. ' +
                 'Provide them via constructor options or set NANGO_CONNECTION_ID and NANGO_SECRET_KEY environment variables.'
             );
         }
 
+        this.config = {
+            ...config,
+            credentialCache: config.credentialCache || new InMemoryCredentialCache(),
+            profileCache: config.profileCache || new TtlCache(),
+            syncStateStore: config.syncStateStore || new InMemorySyncStateStore(),
+            scheduler: config.scheduler || new Scheduler()
+        };
         this.connectionId = connectionId;
-        this.nango = new Nango({ secretKey });
+        this.transport = config.transport || new Nango({ secretKey: secretKey!, host: config.host });
+
+        // Scoped clients share the scheduler, the handler registered by the first client serves them all
+        if (!this.scheduler.hasHandler(LINKEDIN_POST_JOB)) {
+            this.scheduler.register<LinkedInPostJob>(LINKEDIN_POST_JOB, async payload => {
+                const client = this.forConnection(this.connectionId, { linkedin: payload.connectionId });
+                return (await client.linkedin.createPost(payload.post)).data;
+            });
+        }
+    }
+
+    /**
+     * Nango client the integrations go through
+     * @deprecated Use `transport` instead, which also covers custom transports
+     * @throws Error if a custom transport was configured instead of a Nango client
+     */
+    get nango(): Nango {
+        if (!(this.transport instanceof Nango)) {
+            throw new Error('This client uses a custom transport, use kuwe.transport instead of kuwe.nango.');
+        }
+        return this.transport;
+    }
+
+    /**
+     * Scheduler running scheduled posts
+     * Call `kuwe.scheduler.start()` in the process that should publish them
+     */
+    get scheduler(): Scheduler {
+        return this.config.scheduler!;
+    }
+
+    get linkedin(): LinkedInIntegration {
+        return this.integration('linkedin');
+    }
+
+    get googleSheets(): GoogleSheetsIntegration {
+        return this.integration('google-sheet');
+    }
+
+    get gmail(): GmailIntegration {
+        return this.integration('google-mail');
+    }
+
+    get openai(): OpenAIIntegration {
+        return this.integration('openai');
+    }
+
+    /**
+     * Get an integration by name, instantiating it on first access
+     * @param name - Name of a built-in integration or of one registered with `KuweAI.use()`
+     */
+    public integration<K extends keyof IntegrationRegistry>(name: K): IntegrationRegistry[K];
+    public integration<T>(name: string): T;
+    public integration(name: string): unknown {
+        if (!this.instances.has(name)) {
+            const factory = KuweAI.factories.get(name);
+            if (!factory) {
+                throw new Error(`Unknown integration: ${name}. Register it with KuweAI.use() first.`);
+            }
+
+            this.instances.set(name, factory({
+                transport: this.transport,
+                connectionId: this.config.integrations?.[name]?.connectionId || this.connectionId,
+                options: this.integrationOptions(name)
+            }));
+        }
 
-        // Initialize integrations
-        this.linkedin = new LinkedInIntegration(this.nango, this.connectionId);
-        this.googleSheets = new GoogleSheetsIntegration(this.nango, this.connectionId);
-        this.gmail = new GmailIntegration(this.nango, this.connectionId);
-        this.openai = new OpenAIIntegration();
+        return this.instances.get(name);
+    }
+
+    /**
+     * Derive a client scoped to another Nango connection, e.g. one per end user
+     * The scoped client shares this client's transport, caches, sync cursors and configuration, so it is cheap to create per request
+     * Per-integration connection overrides of this client are not inherited
+     * @param connectionId - Connection ID used by the scoped client's integrations
+     * @param connections - Per-integration connection IDs keyed by integration name (e.g. { 'google-mail': 'gmail-connection-id' })
+     */
+    public forConnection(connectionId: string, connections: Record<string, string> = {}): KuweAI {
+        const integrations: Record<string, IntegrationConfig> = {};
+        const names = new Set([...Object.keys(this.config.integrations || {}), ...Object.keys(connections)]);
+
+        for (const name of names) {
+            integrations[name] = { ...this.config.integrations?.[name], connectionId: connections[name] };
+        }
+
+        return new KuweAI({
+            ...this.config,
+            connectionId,
+            transport: this.transport,
+            integrations
+        });
+    }
+
+    /**
+     * Resolve the options for an integration, merging its overrides over the client-wide defaults
+     */
+    private integrationOptions(name: string): IntegrationOptions {
+        const overrides = this.config.integrations?.[name];
+        return {
+            retry: mergeRetryPolicies(this.config.retry, overrides?.retry),
+            credentialCache: overrides?.credentialCache || this.config.credentialCache,
+            credentialExpiryMarginMs: overrides?.credentialExpiryMarginMs,
+            profileCache: overrides?.profileCache || this.config.profileCache,
+            profileTtlMs: overrides?.profileTtlMs,
+            syncStateStore: overrides?.syncStateStore || this.config.syncStateStore,
+            scheduler: this.config.scheduler
+        };
     }
 }
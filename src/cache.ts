@@ -0,0 +1,73 @@
+/**
+ * Options of in-memory caches
+ */
+export interface InMemoryCacheOptions {
+    /** Maximum number of entries, the least recently used entry is evicted beyond it (default: 1000) */
+    maxEntries?: number;
+}
+
+export const DEFAULT_CACHE_MAX_ENTRIES = 1000;
+
+/** How long cached profiles are used before they are fetched again */
+export const DEFAULT_PROFILE_TTL_MS = 60 * 60 * 1000;
+
+/**
+ * Map whose entries expire after a TTL, bounded in size with least-recently-used eviction
+ * Expired entries are dropped when read, and all at once when the cache is full
+ */
+export class TtlCache<T> {
+    // Map iteration follows insertion order, entries are re-inserted on use so the first one is the least recently used
+    private entries = new Map<string, { value: T; expiresAt: number }>();
+    private readonly maxEntries: number;
+
+    constructor(options: InMemoryCacheOptions = {}) {
+        this.maxEntries = Math.max(options.maxEntries ?? DEFAULT_CACHE_MAX_ENTRIES, 1);
+    }
+
+    get size(): number {
+        return this.entries.size;
+    }
+
+    public get(key: string): T | undefined {
+        const entry = this.entries.get(key);
+        if (!entry) {
+            return undefined;
+        }
+
+        this.entries.delete(key);
+        if (entry.expiresAt <= Date.now()) {
+            return undefined;
+        }
+        this.entries.set(key, entry);
+        return entry.value;
+    }
+
+    public set(key: string, value: T, ttlMs: number): void {
+        this.entries.delete(key);
+        if (this.entries.size >= this.maxEntries) {
+            this.evict();
+        }
+        this.entries.set(key, { value, expiresAt: Date.now() + ttlMs });
+    }
+
+    public delete(key: string): void {
+        this.entries.delete(key);
+    }
+
+    /**
+     * Drop the expired entries, or the least recently used one if none expired
+     */
+    private evict(): void {
+        const now = Date.now();
+        for (const [key, entry] of this.entries) {
+            if (entry.expiresAt <= now) {
+                this.entries.delete(key);
+            }
+        }
+
+        if (this.entries.size >= this.maxEntries) {
+            const [oldest] = this.entries.keys();
+            this.entries.delete(oldest);
+        }
+    }
+}
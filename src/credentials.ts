@@ -0,0 +1,80 @@
+import type { AuthCredentials } from './integrations/base';
+import { InMemoryCacheOptions, TtlCache } from './cache';
+
+/**
+ * Store for connection credentials
+ * Implement it on top of a shared store (e.g. Redis) to share credentials between processes
+ */
+export interface CredentialCache {
+    get(key: string): Promise<AuthCredentials | undefined>;
+    /**
+     * @param ttlMs - How long the credentials can be served, the entry should be dropped afterwards
+     */
+    set(key: string, credentials: AuthCredentials, ttlMs: number): Promise<void>;
+    delete(key: string): Promise<void>;
+}
+
+/**
+ * Default credential cache, local to the process
+ * Holds up to `maxEntries` connections (default: 1000), evicting expired then least recently used credentials
+ */
+export class InMemoryCredentialCache implements CredentialCache {
+    private entries: TtlCache<AuthCredentials>;
+
+    constructor(options: InMemoryCacheOptions = {}) {
+        this.entries = new TtlCache(options);
+    }
+
+    /**
+     * Number of cached connections, including expired ones not evicted yet
+     */
+    get size(): number {
+        return this.entries.size;
+    }
+
+    public async get(key: string): Promise<AuthCredentials | undefined> {
+        return this.entries.get(key);
+    }
+
+    public async set(key: string, credentials: AuthCredentials, ttlMs: number): Promise<void> {
+        this.entries.set(key, credentials, ttlMs);
+    }
+
+    public async delete(key: string): Promise<void> {
+        this.entries.delete(key);
+    }
+}
+
+/** Credentials are refreshed this long before they expire */
+export const DEFAULT_CREDENTIAL_EXPIRY_MARGIN_MS = 60 * 1000;
+
+/** How long credentials without an expiry date are cached */
+export const DEFAULT_CREDENTIAL_TTL_MS = 10 * 60 * 1000;
+
+/**
+ * Get the expiry date of credentials in milliseconds, if they have one
+ * Nango sends expires_at as an ISO date, epoch seconds are accepted too
+ */
+export function getCredentialsExpiry(credentials: AuthCredentials): number | undefined {
+    const expiresAt: unknown = (credentials as { expires_at?: unknown }).expires_at;
+
+    if (typeof expiresAt === 'number') {
+        return expiresAt < 1e12 ? expiresAt * 1000 : expiresAt;
+    }
+    if (typeof expiresAt === 'string' || expiresAt instanceof Date) {
+        const time = new Date(expiresAt).getTime();
+        return Number.isNaN(time) ? undefined : time;
+    }
+
+    return undefined;
+}
+
+/**
+ * How long credentials can be used before they must be refreshed
+ * @param credentials - Connection credentials
+ * @param marginMs - Safety margin before the expiry date
+ */
+export function getCredentialsTtl(credentials: AuthCredentials, marginMs: number, now: number = Date.now()): number {
+    const expiry = getCredentialsExpiry(credentials);
+    return expiry === undefined ? DEFAULT_CREDENTIAL_TTL_MS : expiry - marginMs - now;
+}
@@ -0,0 +1,185 @@
+import { readHeader } from './transport/transport';
+
+/**
+ * Options shared by all KuweAI errors
+ */
+export interface KuweErrorOptions {
+    integration: string;
+    status?: number;
+    code?: string;
+    retryable?: boolean;
+    retryAfterMs?: number;
+    cause?: unknown;
+}
+
+/**
+ * Base class for every error thrown by KuweAI integrations
+ * Carries the integration name, HTTP status, provider error code and a retry hint
+ */
+export class KuweError extends Error {
+    readonly integration: string;
+    readonly status?: number;
+    readonly code?: string;
+    readonly retryable: boolean;
+    readonly retryAfterMs?: number;
+    readonly cause?: unknown;
+
+    constructor(message: string, options: KuweErrorOptions) {
+        super(message);
+        this.name = 'KuweError';
+        this.integration = options.integration;
+        this.status = options.status;
+        this.code = options.code;
+        this.retryable = options.retryable ?? false;
+        this.retryAfterMs = options.retryAfterMs;
+        this.cause = options.cause;
+    }
+}
+
+/**
+ * The connection is missing, expired or lacks the required permissions (401/403)
+ */
+export class AuthError extends KuweError {
+    constructor(message: string, options: KuweErrorOptions) {
+        super(message, options);
+        this.name = 'AuthError';
+    }
+}
+
+/**
+ * The provider rejected the request because of rate limits or quotas (429)
+ */
+export class RateLimitError extends KuweError {
+    constructor(message: string, options: KuweErrorOptions) {
+        super(message, { retryable: true, ...options });
+        this.name = 'RateLimitError';
+    }
+}
+
+/**
+ * The requested resource does not exist (404)
+ */
+export class NotFoundError extends KuweError {
+    constructor(message: string, options: KuweErrorOptions) {
+        super(message, options);
+        this.name = 'NotFoundError';
+    }
+}
+
+/**
+ * The request is invalid, either rejected by the provider (400/422) or caught before being sent
+ */
+export class ValidationError extends KuweError {
+    constructor(message: string, options: KuweErrorOptions) {
+        super(message, options);
+        this.name = 'ValidationError';
+    }
+}
+
+/**
+ * Any other provider failure: server errors, network errors or unexpected responses
+ */
+export class ProviderError extends KuweError {
+    constructor(message: string, options: KuweErrorOptions) {
+        super(message, options);
+        this.name = 'ProviderError';
+    }
+}
+
+const RETRYABLE_NETWORK_CODES = ['ECONNRESET', 'ECONNREFUSED', 'ETIMEDOUT', 'EAI_AGAIN', 'EPIPE', 'ECONNABORTED'];
+const GOOGLE_RATE_LIMIT_REASONS = ['rateLimitExceeded', 'userRateLimitExceeded', 'quotaExceeded', 'RESOURCE_EXHAUSTED'];
+
+/**
+ * Convert any error thrown by Nango, axios, googleapis or the OpenAI client into a KuweError
+ * @param error - The caught error
+ * @param integration - Name of the integration the error originated from
+ */
+export function toKuweError(error: unknown, integration: string): KuweError {
+    if (error instanceof KuweError) {
+        return error;
+    }
+
+    const status = asNumber(get(error, 'response', 'status')) ?? asNumber(get(error, 'status'));
+    const headers = get(error, 'response', 'headers') ?? get(error, 'headers');
+    const body = get(error, 'response', 'data');
+    const errorCode = asString(get(error, 'code'));
+    const serviceErrorCode = get(body, 'serviceErrorCode');
+    const reason = asString(get(body, 'error', 'errors', 0, 'reason'));
+
+    const code = pickString(
+        get(body, 'error', 'status'),
+        get(body, 'error', 'code'),
+        reason,
+        serviceErrorCode !== undefined ? String(serviceErrorCode) : undefined,
+        get(body, 'code'),
+        errorCode
+    );
+    const message = pickString(
+        get(body, 'error', 'message'),
+        get(body, 'error'),
+        get(body, 'message'),
+        get(error, 'message')
+    ) || 'Unknown error';
+    const retryAfterMs = parseRetryAfter(readHeader(headers, 'retry-after'));
+    const options: KuweErrorOptions = { integration, status, code, retryAfterMs, cause: error };
+
+    const quotaExceeded = [code, reason].some(value => value !== undefined && GOOGLE_RATE_LIMIT_REASONS.includes(value));
+    if (status === 429 || (status === 403 && quotaExceeded)) {
+        return new RateLimitError(message, options);
+    }
+    if (status === 401 || status === 403) {
+        return new AuthError(message, options);
+    }
+    if (status === 404) {
+        return new NotFoundError(message, options);
+    }
+    if (status === 400 || status === 409 || status === 422) {
+        return new ValidationError(message, options);
+    }
+
+    const retryable = status !== undefined
+        ? status >= 500
+        : errorCode !== undefined && RETRYABLE_NETWORK_CODES.includes(errorCode);
+
+    return new ProviderError(message, { ...options, retryable });
+}
+
+function get(value: unknown, ...path: Array<string | number>): unknown {
+    let current = value;
+    for (const key of path) {
+        if (current === null || typeof current !== 'object') {
+            return undefined;
+        }
+        current = (current as Record<string | number, unknown>)[key];
+    }
+    return current;
+}
+
+function asNumber(value: unknown): number | undefined {
+    return typeof value === 'number' ? value : undefined;
+}
+
+function asString(value: unknown): string | undefined {
+    return typeof value === 'string' ? value : undefined;
+}
+
+function pickString(...values: unknown[]): string | undefined {
+    return values.find((value): value is string => typeof value === 'string' && value.length > 0);
+}
+
+/**
+ * Parse a Retry-After header value (delay in seconds or HTTP date) into milliseconds
+ */
+export function parseRetryAfter(value: string | undefined, now: number = Date.now()): number | undefined {
+    if (!value) {
+        return undefined;
+    }
+
+    const seconds = Number(value);
+    if (!Number.isNaN(seconds)) {
+        return Math.max(0, seconds * 1000);
+    }
+
+    const date = Date.parse(value);
+    return Number.isNaN(date) ? undefined : Math.max(0, date - now);
+}
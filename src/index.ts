@@ -1,9 +1,32 @@
 // Export the main KuweAI class and its configuration interfaces
 export { KuweAI } from './app';
-export type { KuweProxyConfig, KuweAIConfig } from './app';
+export type { KuweProxyConfig, KuweAIConfig, IntegrationConfig } from './app';
+
+// Export the error hierarchy thrown by all integrations
+export * from './errors';
+
+// Export retry policy types and helpers
+export { DEFAULT_RETRY_POLICY, isIdempotent } from './retry';
+export type { RetryPolicy, RetryAttempt } from './retry';
+
+// Export credential caching
+export { InMemoryCredentialCache, DEFAULT_CREDENTIAL_EXPIRY_MARGIN_MS } from './credentials';
+export type { CredentialCache } from './credentials';
+export { TtlCache, DEFAULT_PROFILE_TTL_MS } from './cache';
+export type { InMemoryCacheOptions } from './cache';
+
+// Export pagination helpers
+export { paginate, mapConcurrent } from './pagination';
+export type { IterateOptions, Page } from './pagination';
+
+// Export the scheduler, its job stores and clocks
+export * from './scheduler';
 
 // Export all integrations and their types
 export * from './integrations';
 
+// Export transports (including the in-memory fake for tests)
+export * from './transport';
+
 // Default export with the main KuweAI class
 export { KuweAI as default } from './app';
\ No newline at end of file
@@ -1,5 +1,16 @@
-import { Nango } from '@nangohq/node';
 import { KuweProxyConfig } from '../app';
+import type { GoogleRequestAdapter, KuweTransport, TransportResponse } from '../transport';
+import type { Scheduler } from '../scheduler';
+import type { TtlCache } from '../cache';
+import type { SyncStateStore } from './google-mail/sync';
+import { AuthError, KuweError, toKuweError } from '../errors';
+import { RetryPolicy, withRetry } from '../retry';
+import {
+    CredentialCache,
+    DEFAULT_CREDENTIAL_EXPIRY_MARGIN_MS,
+    InMemoryCredentialCache,
+    getCredentialsTtl
+} from '../credentials';
 
 /**
  * Authentication credential type definitions
@@ -56,6 +67,32 @@ export type ExtractAuthToken<T extends AuthCredentials> =
     T extends ApiKeyCredentials ? string :
     never;
 
+/**
+ * Response returned by integration methods
+ */
+export interface IntegrationResponse<T> {
+    success: boolean;
+    data: T;
+    message: string;
+}
+
+/**
+ * Options shared by all integrations
+ */
+export interface IntegrationOptions {
+    retry?: RetryPolicy;
+    credentialCache?: CredentialCache;
+    credentialExpiryMarginMs?: number;
+    /** Profiles of the connected accounts, such as the LinkedIn member posting (defaults to a cache per integration) */
+    profileCache?: TtlCache<unknown>;
+    /** How long a cached profile is used before it is fetched again in milliseconds (default: 1 hour) */
+    profileTtlMs?: number;
+    /** Cursors of mailbox syncs such as Gmail's `sync()` (defaults to an in-memory store per integration) */
+    syncStateStore?: SyncStateStore;
+    /** Scheduler used by methods that run later, such as LinkedIn's schedulePost */
+    scheduler?: Scheduler;
+}
+
 /**
  * Base interface that all integrations must implement
  */
@@ -67,37 +104,151 @@ export interface BaseIntegration {
 /**
  * Abstract base class for all integrations with type-safe authentication
  * Provides common functionality and ensures consistent structure
+ *
+ * Every integration method resolves with `{ success: true, data, message }`
+ * and throws a KuweError subclass on failure
  */
 export abstract class Integration<TCredentials extends AuthCredentials = AuthCredentials> implements BaseIntegration {
     abstract readonly name: string;
     abstract readonly providerConfigKey: string;
 
+    private credentialCache: CredentialCache;
+    private pendingCredentials?: Promise<TCredentials>;
+
     constructor(
-        private nango: Nango,
-        private connectionId: string
-    ) { }
+        private transport: KuweTransport,
+        protected readonly connectionId: string,
+        protected readonly options: IntegrationOptions = {}
+    ) {
+        this.credentialCache = options.credentialCache || new InMemoryCredentialCache();
+    }
+
+    /**
+     * Key identifying this integration's connection in caches and stores
+     */
+    protected get connectionKey(): string {
+        return `${this.providerConfigKey}:${this.connectionId}`;
+    }
+
+    /**
+     * Options to pass to googleapis clients
+     * Requests go through the transport adapter, if any, and are retried according to the integration's policy
+     */
+    protected get googleClientOptions() {
+        const transportAdapter = this.transport.googleAdapter;
+        const adapter: GoogleRequestAdapter = async (options, defaultAdapter) => {
+            let lastResponse: Awaited<ReturnType<typeof defaultAdapter>> | undefined;
+
+            try {
+                return await withRetry(async () => {
+                    lastResponse = undefined;
+                    const response = transportAdapter ? await transportAdapter(options, defaultAdapter) : await defaultAdapter(options);
+                    if (response.status >= 400) {
+                        lastResponse = response;
+                        throw Object.assign(new Error(`Request failed with status code ${response.status}`), { response });
+                    }
+                    return response;
+                }, { policy: this.options.retry || {}, integration: this.name, method: options.method || 'GET' });
+            } catch (error) {
+                // Hand error responses back to googleapis so it raises its usual errors
+                if (lastResponse) {
+                    return lastResponse;
+                }
+                throw error instanceof KuweError && error.cause ? error.cause : error;
+            }
+        };
+
+        return { adapter, retry: false };
+    }
+
+    /**
+     * Run a provider operation, converting any failure into a KuweError
+     */
+    protected async execute<T>(operation: () => Promise<T>): Promise<T> {
+        try {
+            return await operation();
+        } catch (error) {
+            throw toKuweError(error, this.name);
+        }
+    }
+
+    /**
+     * Run an authenticated operation, refreshing the credentials and trying again once if it fails with a 401
+     */
+    protected async withAuthRefresh<T>(operation: () => Promise<T>): Promise<T> {
+        try {
+            return await operation();
+        } catch (error) {
+            if (!(error instanceof AuthError) || error.status !== 401) {
+                throw error;
+            }
+
+            await this.getConnCredentials(true);
+            return operation();
+        }
+    }
 
     /**
      * Helper method to make proxy requests with integration-specific defaults
+     * Failed requests are retried according to the integration's retry policy
+     * @throws KuweError if the request fails
      */
-    protected async proxyRequest(config: Omit<KuweProxyConfig, 'providerConfigKey'>) {
+    protected async proxyRequest<T = unknown>(config: Omit<KuweProxyConfig, 'providerConfigKey'>): Promise<TransportResponse<T>> {
         const fullConfig: KuweProxyConfig = {
             ...config,
             providerConfigKey: this.providerConfigKey
         };
 
-        return await this.nango.proxy({
+        return this.withAuthRefresh(() => withRetry(() => this.transport.proxy<T>({
             ...fullConfig,
             connectionId: this.connectionId
-        });
+        }), { policy: this.options.retry || {}, integration: this.name, method: config.method || 'GET' }));
     }
 
     /**
      * Get raw credentials from Nango
+     * Credentials are cached per connection until shortly before they expire
+     * @param forceRefresh - Skip the cache and have Nango refresh the credentials
+     * @throws KuweError if the connection cannot be retrieved
      */
-    public async getConnCredentials(): Promise<TCredentials> {
-        const res = await this.nango.getConnection(this.providerConfigKey, this.connectionId);
-        return res.credentials as TCredentials;
+    public async getConnCredentials(forceRefresh: boolean = false): Promise<TCredentials> {
+        const key = this.connectionKey;
+        const marginMs = this.options.credentialExpiryMarginMs ?? DEFAULT_CREDENTIAL_EXPIRY_MARGIN_MS;
+
+        if (!forceRefresh) {
+            const cached = await this.credentialCache.get(key);
+            if (cached && getCredentialsTtl(cached, marginMs) > 0) {
+                return cached as TCredentials;
+            }
+
+            // Share a single Nango lookup between concurrent calls
+            if (this.pendingCredentials) {
+                return this.pendingCredentials;
+            }
+        }
+
+        const pending = (async () => {
+            const res = await this.execute(() => this.transport.getConnection(this.providerConfigKey, this.connectionId, forceRefresh));
+            const credentials = res.credentials as TCredentials;
+
+            const ttlMs = getCredentialsTtl(credentials, marginMs);
+            if (ttlMs > 0) {
+                await this.credentialCache.set(key, credentials, ttlMs);
+            } else {
+                await this.credentialCache.delete(key);
+            }
+
+            return credentials;
+        })();
+
+        this.pendingCredentials = pending;
+        try {
+            return await pending;
+        } finally {
+            if (this.pendingCredentials === pending) {
+                this.pendingCredentials = undefined;
+            }
+        }
     }
 
     /**
@@ -124,7 +275,7 @@ export abstract class Integration<TCredentials extends AuthCredentials = AuthCre
                 return (credentials as ApiKeyCredentials).apiKey as ExtractAuthToken<TCredentials>;
             
             default:
-                throw new Error(`Unsupported authentication type: ${(credentials as any).type}`);
+                throw new AuthError(`Unsupported authentication type: ${(credentials as any).type}`, { integration: this.name });
         }
     }
 
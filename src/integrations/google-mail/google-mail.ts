@@ -1,5 +1,103 @@
-import { Integration, OAuth2Credentials, AuthType } from '../base';
-import { google } from 'googleapis';
+import { Integration, IntegrationResponse, OAuth2Credentials, AuthType } from '../base';
+import { Auth, google, gmail_v1 } from 'googleapis';
+import { EmailAttachment, EmailMessageOptions, buildMimeMessage, encodeRawMessage } from './mime';
+import {
+  buildForwardBodies,
+  formatAddress,
+  forwardSubject,
+  getReplyRecipients,
+  replyReferences,
+  replySubject
+} from './replies';
+import { ParsedEmail, parseGmailMessage } from './parser';
+import {
+  GmailSyncEvent,
+  GmailSyncEventType,
+  InMemorySyncStateStore,
+  SyncStateStore,
+  toHistoryTypes,
+  toSyncEvents
+} from './sync';
+import { IterateOptions, mapConcurrent, paginate, throwIfAborted } from '../../pagination';
+import { NotFoundError, ValidationError } from '../../errors';
+
+/**
+ * Options for iterating over emails
+ * Set format to fetch the details of each message, otherwise only IDs and thread IDs are returned
+ */
+export interface IterateEmailsOptions extends IterateOptions {
+  labelIds?: string[];
+  includeSpamTrash?: boolean;
+  format?: 'minimal' | 'full' | 'raw' | 'metadata';
+  /** Maximum number of details requests in flight (default: 5) */
+  concurrency?: number;
+}
+
+/**
+ * Bodies and attachments of a reply
+ */
+export type ReplyBody = Pick<EmailMessageOptions, 'text' | 'html' | 'attachments'>;
+
+/**
+ * Options for replying to an email
+ */
+export interface ReplyOptions {
+  /** Also reply to the original To and Cc recipients (default: false) */
+  replyAll?: boolean;
+  from?: string;
+  cc?: string | string[];
+  bcc?: string | string[];
+}
+
+/**
+ * Options for forwarding an email
+ */
+export interface ForwardOptions {
+  /** Text added above the forwarded message */
+  note?: string;
+  from?: string;
+  cc?: string | string[];
+  bcc?: string | string[];
+  /** Carry over the original attachments (default: true) */
+  includeAttachments?: boolean;
+}
+
+/**
+ * Options for iterating over drafts
+ */
+export interface IterateDraftsOptions extends IterateOptions {
+  query?: string;
+  format?: 'minimal' | 'full' | 'raw' | 'metadata';
+  /** Maximum number of details requests in flight (default: 5) */
+  concurrency?: number;
+}
+
+/**
+ * Options for syncing mailbox changes
+ */
+export interface GmailSyncOptions extends Pick<IterateOptions, 'pageSize' | 'signal'> {
+  /** Where the cursor is kept (default: the client's store, in memory and lost when the process exits) */
+  store?: SyncStateStore;
+  /** Only report changes to messages with this label, the cursor is kept per label */
+  labelId?: string;
+  /** Only report these kinds of changes */
+  types?: GmailSyncEventType[];
+  /** Gmail search query of the messages listed after a resync */
+  resyncQuery?: string;
+  /** Maximum number of messages listed after a resync (default: 100) */
+  resyncLimit?: number;
+}
+
+/**
+ * Color and visibility of a label
+ * Gmail only accepts colors from its palette, e.g. `{ backgroundColor: '#16a766', textColor: '#ffffff' }`
+ */
+export interface LabelOptions {
+  color?: { backgroundColor: string; textColor: string };
+  labelListVisibility?: 'labelShow' | 'labelShowIfUnread' | 'labelHide';
+  messageListVisibility?: 'show' | 'hide';
+}
+
 /**
  * Gmail integration class
  * Provides methods for interacting with Gmail API using the official Google APIs library
@@ -8,6 +106,10 @@ export class GmailIntegration extends Integration<OAuth2Credentials> {
   readonly name = 'google-mail';
   readonly providerConfigKey = 'google-mail';
 
+  private gmailClient?: { auth: Auth.OAuth2Client; gmail: gmail_v1.Gmail };
+  private authenticatedAddress?: string;
+  private syncStateStore: SyncStateStore = this.options.syncStateStore || new InMemorySyncStateStore();
+
   /**
    * Get Gmail access token directly with type safety
    * No need for manual type checking!
@@ -17,15 +119,38 @@ export class GmailIntegration extends Integration<OAuth2Credentials> {
   }
 
   /**
-   * Create an authenticated Gmail client
+   * Get the authenticated Gmail client
+   * The client is created once and its access token updated whenever the cached credentials change
    */
   private async getGmailClient() {
     const accessToken = await this.getAccessToken();
-    const auth = new google.auth.OAuth2();
-    auth.setCredentials({ access_token: accessToken });
-    return google.gmail({ version: 'v1', auth });
+
+    if (!this.gmailClient) {
+      const auth = new google.auth.OAuth2();
+      this.gmailClient = { auth, gmail: google.gmail({ version: 'v1', auth, ...this.googleClientOptions }) };
+    }
+
+    if (this.gmailClient.auth.credentials.access_token !== accessToken) {
+      this.gmailClient.auth.setCredentials({ access_token: accessToken });
+    }
+
+    return this.gmailClient.gmail;
   }
 
+  /**
+   * Run a request against an authenticated Gmail client
+   * @throws KuweError if the request fails
+   */
+  private async callGmail<T>(request: (gmail: gmail_v1.Gmail) => Promise<T>): Promise<T> {
+    return this.withAuthRefresh(() => this.execute(async () => request(await this.getGmailClient())));
+  }
+
+  /**
+   * Send an email
+   * @param options - Recipients, subject, text and/or HTML body, attachments and headers
+   * @throws ValidationError if a header contains line breaks
+   */
+  public async sendEmail(options: EmailMessageOptions): Promise<IntegrationResponse<gmail_v1.Schema$Message>>;
   /**
    * Send an email
    * @param to - Recipient email address(es) (string or array)
@@ -43,38 +168,186 @@ export class GmailIntegration extends Integration<OAuth2Credentials> {
     from?: string,
     cc?: string | string[],
     bcc?: string | string[],
+    isHtml?: boolean
+  ): Promise<IntegrationResponse<gmail_v1.Schema$Message>>;
+  public async sendEmail(
+    to: string | string[] | EmailMessageOptions,
+    subject?: string,
+    body?: string,
+    from?: string,
+    cc?: string | string[],
+    bcc?: string | string[],
     isHtml: boolean = false
   ) {
-    const gmail = await this.getGmailClient();
-
-    const toAddresses = Array.isArray(to) ? to.join(', ') : to;
-    const ccAddresses = cc ? (Array.isArray(cc) ? cc.join(', ') : cc) : '';
-    const bccAddresses = bcc ? (Array.isArray(bcc) ? bcc.join(', ') : bcc) : '';
-
-    let emailContent = `To: ${toAddresses}\r\n`;
-    if (ccAddresses) emailContent += `Cc: ${ccAddresses}\r\n`;
-    if (bccAddresses) emailContent += `Bcc: ${bccAddresses}\r\n`;
-    emailContent += `Subject: ${subject}\r\n`;
-    emailContent += `Content-Type: ${isHtml ? 'text/html' : 'text/plain'}; charset=utf-8\r\n\r\n`;
-    emailContent += body;
-
-    const encodedMessage = Buffer.from(emailContent)
-      .toString('base64')
-      .replace(/\+/g, '-')
-      .replace(/\//g, '_')
-      .replace(/=+$/, '');
-
-    const response = await gmail.users.messages.send({
+    const response = await this.sendMessage(toMessageOptions(to, subject, body, from, cc, bcc, isHtml));
+
+    return {
+      success: true,
+      data: response,
+      message: 'Email sent successfully'
+    };
+  }
+
+  /**
+   * Compose and send a message, optionally within an existing thread
+   */
+  private async sendMessage(options: EmailMessageOptions, threadId?: string) {
+    const requestBody = await composeMessage(options, threadId);
+
+    const response = await this.callGmail(gmail => gmail.users.messages.send({
       userId: 'me',
-      requestBody: {
-        raw: encodedMessage
+      requestBody
+    }));
+
+    return response.data;
+  }
+
+  /**
+   * Get the email address of the authenticated user, cached after the first call
+   */
+  private async getAuthenticatedAddress(): Promise<string> {
+    if (!this.authenticatedAddress) {
+      const profile = await this.getProfile();
+      this.authenticatedAddress = profile.data.emailAddress || '';
+    }
+    return this.authenticatedAddress;
+  }
+
+  /**
+   * Reply to an email within its thread
+   * Sets In-Reply-To and References so Gmail and other clients group the reply with the conversation
+   * @param messageId - The ID of the message to reply to
+   * @param body - Text body, or text/HTML bodies and attachments
+   * @param options - Reply to all recipients, sender and additional recipients
+   */
+  public async replyToEmail(
+    messageId: string,
+    body: string | ReplyBody,
+    options: ReplyOptions = {}
+  ): Promise<IntegrationResponse<gmail_v1.Schema$Message>> {
+    const [{ data: original }, selfAddress] = await Promise.all([
+      this.getParsedEmail(messageId),
+      this.getAuthenticatedAddress()
+    ]);
+
+    const recipients = getReplyRecipients(original, selfAddress, options.replyAll ?? false);
+    const references = replyReferences(original);
+    const headers: Record<string, string> = {};
+    if (original.messageId) headers['In-Reply-To'] = original.messageId;
+    if (references.length > 0) headers['References'] = references.join(' ');
+
+    const response = await this.sendMessage({
+      ...(typeof body === 'string' ? { text: body } : body),
+      from: options.from,
+      to: recipients.to.map(formatAddress),
+      cc: [...recipients.cc.map(formatAddress), ...toList(options.cc)],
+      bcc: options.bcc,
+      subject: replySubject(original.subject),
+      headers
+    }, original.threadId);
+
+    return {
+      success: true,
+      data: response,
+      message: 'Reply sent successfully'
+    };
+  }
+
+  /**
+   * Forward an email, carrying over its attachments
+   * @param messageId - The ID of the message to forward
+   * @param to - Recipient email address(es)
+   * @param options - Note added above the forwarded message, additional recipients and attachment handling
+   */
+  public async forwardEmail(
+    messageId: string,
+    to: string | string[],
+    options: ForwardOptions = {}
+  ): Promise<IntegrationResponse<gmail_v1.Schema$Message>> {
+    const { data: original } = await this.getParsedEmail(messageId);
+
+    const attachments: EmailAttachment[] = [];
+    if (options.includeAttachments ?? true) {
+      for (const attachment of original.attachments) {
+        if (!attachment.attachmentId) {
+          continue;
+        }
+        const { data: content } = await this.downloadAttachment(messageId, attachment.attachmentId);
+        attachments.push({
+          filename: attachment.filename || 'attachment',
+          content,
+          contentType: attachment.mimeType,
+          contentId: attachment.inline ? attachment.contentId : undefined
+        });
       }
-    });
+    }
+
+    const references = replyReferences(original);
+    const response = await this.sendMessage({
+      ...buildForwardBodies(original, options.note),
+      from: options.from,
+      to,
+      cc: options.cc,
+      bcc: options.bcc,
+      subject: forwardSubject(original.subject),
+      attachments,
+      headers: references.length > 0 ? { References: references.join(' ') } : undefined
+    }, original.threadId);
+
+    return {
+      success: true,
+      data: response,
+      message: 'Email forwarded successfully'
+    };
+  }
+
+  /**
+   * Get a thread with all its messages
+   * @param threadId - The ID of the thread to retrieve
+   * @param format - The format to return the messages in (default: 'full')
+   */
+  public async getThread(
+    threadId: string,
+    format: 'minimal' | 'full' | 'metadata' = 'full'
+  ) {
+    const response = await this.callGmail(gmail => gmail.users.threads.get({
+      userId: 'me',
+      id: threadId,
+      format
+    }));
 
     return {
       success: true,
       data: response.data,
-      message: 'Email sent successfully'
+      message: 'Thread retrieved successfully'
+    };
+  }
+
+  /**
+   * List threads (conversations)
+   * @param query - Gmail search query (optional)
+   * @param maxResults - Maximum number of threads to return (default: 10)
+   * @param pageToken - Token for pagination
+   * @param labelIds - Array of label IDs to filter by (optional)
+   */
+  public async listThreads(
+    query?: string,
+    maxResults: number = 10,
+    pageToken?: string,
+    labelIds?: string[]
+  ) {
+    const response = await this.callGmail(gmail => gmail.users.threads.list({
+      userId: 'me',
+      q: query,
+      maxResults,
+      pageToken,
+      labelIds: labelIds && labelIds.length > 0 ? labelIds : undefined
+    }));
+
+    return {
+      success: true,
+      data: response.data,
+      message: 'Threads retrieved successfully'
     };
   }
 
@@ -91,15 +364,13 @@ export class GmailIntegration extends Integration<OAuth2Credentials> {
     pageToken?: string,
     q?: string
   ) {
-    const gmail = await this.getGmailClient();
-
-    const response = await gmail.users.messages.list({
+    const response = await this.callGmail(gmail => gmail.users.messages.list({
       userId: 'me',
       maxResults,
       labelIds: labelIds.length > 0 ? labelIds : undefined,
       pageToken,
       q
-    });
+    }));
 
     return {
       success: true,
@@ -117,13 +388,11 @@ export class GmailIntegration extends Integration<OAuth2Credentials> {
     messageId: string,
     format: 'minimal' | 'full' | 'raw' | 'metadata' = 'full'
   ) {
-    const gmail = await this.getGmailClient();
-
-    const response = await gmail.users.messages.get({
+    const response = await this.callGmail(gmail => gmail.users.messages.get({
       userId: 'me',
       id: messageId,
       format
-    });
+    }));
 
     return {
       success: true,
@@ -132,6 +401,48 @@ export class GmailIntegration extends Integration<OAuth2Credentials> {
     };
   }
 
+  /**
+   * Get an email with decoded headers, bodies and attachment metadata
+   * @param messageId - The ID of the message to retrieve
+   */
+  public async getParsedEmail(messageId: string): Promise<IntegrationResponse<ParsedEmail>> {
+    const response = await this.callGmail(gmail => gmail.users.messages.get({
+      userId: 'me',
+      id: messageId,
+      format: 'full'
+    }));
+
+    const parsed = await parseGmailMessage(
+      response.data,
+      async attachmentId => (await this.downloadAttachment(messageId, attachmentId)).data
+    );
+
+    return {
+      success: true,
+      data: parsed,
+      message: 'Email parsed successfully'
+    };
+  }
+
+  /**
+   * Download the content of an attachment
+   * @param messageId - The ID of the message containing the attachment
+   * @param attachmentId - The attachment ID (see `ParsedEmail.attachments`)
+   */
+  public async downloadAttachment(messageId: string, attachmentId: string): Promise<IntegrationResponse<Buffer>> {
+    const response = await this.callGmail(gmail => gmail.users.messages.attachments.get({
+      userId: 'me',
+      messageId,
+      id: attachmentId
+    }));
+
+    return {
+      success: true,
+      data: Buffer.from(response.data.data || '', 'base64'),
+      message: 'Attachment downloaded successfully'
+    };
+  }
+
   /**
    * Search emails using Gmail search syntax
    * @param query - Gmail search query (e.g., 'from:example@gmail.com', 'subject:important')
@@ -143,14 +454,12 @@ export class GmailIntegration extends Integration<OAuth2Credentials> {
     maxResults: number = 10,
     pageToken?: string
   ) {
-    const gmail = await this.getGmailClient();
-
-    const response = await gmail.users.messages.list({
+    const response = await this.callGmail(gmail => gmail.users.messages.list({
       userId: 'me',
       maxResults,
       q: query,
       pageToken
-    });
+    }));
 
     return {
       success: true,
@@ -159,25 +468,189 @@ export class GmailIntegration extends Integration<OAuth2Credentials> {
     };
   }
 
+  /**
+   * Iterate over all emails matching a query, fetching pages lazily
+   * Only IDs are fetched unless a format is given, in which case details are fetched with bounded concurrency
+   * @param query - Gmail search query (optional)
+   * @param options - Labels, format, concurrency, limit and abort signal
+   */
+  public async *iterateEmails(query?: string, options: IterateEmailsOptions = {}): AsyncGenerator<gmail_v1.Schema$Message> {
+    const messages = paginate<gmail_v1.Schema$Message>(async pageToken => {
+      const response = await this.callGmail(gmail => gmail.users.messages.list({
+        userId: 'me',
+        q: query,
+        labelIds: options.labelIds && options.labelIds.length > 0 ? options.labelIds : undefined,
+        includeSpamTrash: options.includeSpamTrash,
+        maxResults: options.pageSize ?? 100,
+        pageToken
+      }, { signal: options.signal }));
+      return { items: response.data.messages || [], nextPageToken: response.data.nextPageToken };
+    }, options);
+
+    const format = options.format;
+    if (!format) {
+      yield* messages;
+      return;
+    }
+
+    yield* mapConcurrent(messages, async message => {
+      const response = await this.callGmail(gmail => gmail.users.messages.get({
+        userId: 'me',
+        id: message.id!,
+        format
+      }, { signal: options.signal }));
+      return response.data;
+    }, options.concurrency ?? 5);
+  }
+
+  /**
+   * Iterate over all drafts, fetching pages lazily
+   * @param options - Query, format, concurrency, limit and abort signal
+   */
+  public async *iterateDrafts(options: IterateDraftsOptions = {}): AsyncGenerator<gmail_v1.Schema$Draft> {
+    const drafts = paginate<gmail_v1.Schema$Draft>(async pageToken => {
+      const response = await this.callGmail(gmail => gmail.users.drafts.list({
+        userId: 'me',
+        q: options.query,
+        maxResults: options.pageSize ?? 100,
+        pageToken
+      }, { signal: options.signal }));
+      return { items: response.data.drafts || [], nextPageToken: response.data.nextPageToken };
+    }, options);
+
+    const format = options.format;
+    if (!format) {
+      yield* drafts;
+      return;
+    }
+
+    yield* mapConcurrent(drafts, async draft => {
+      const response = await this.callGmail(gmail => gmail.users.drafts.get({
+        userId: 'me',
+        id: draft.id!,
+        format
+      }, { signal: options.signal }));
+      return response.data;
+    }, options.concurrency ?? 5);
+  }
+
+  /**
+   * Iterate over all labels
+   * Gmail returns every label at once, this mirrors the other iterating methods
+   * @param options - Limit and abort signal
+   */
+  public async *iterateLabels(options: Pick<IterateOptions, 'limit' | 'signal'> = {}): AsyncGenerator<gmail_v1.Schema$Label> {
+    yield* paginate<gmail_v1.Schema$Label>(async () => {
+      const response = await this.callGmail(gmail => gmail.users.labels.list({ userId: 'me' }, { signal: options.signal }));
+      return { items: response.data.labels || [] };
+    }, options);
+  }
+
+  /**
+   * Iterate over the mailbox changes since the last sync
+   * The first sync stores the current history ID and yields nothing. The cursor is saved after each page,
+   * so changes are delivered at least once: stopping early replays the unsaved page on the next sync.
+   * When the stored history ID has expired, a resync event is yielded followed by messageAdded events
+   * for the current messages.
+   * @param options - Cursor store, label and change filters, resync settings and abort signal
+   */
+  public async *sync(options: GmailSyncOptions = {}): AsyncGenerator<GmailSyncEvent> {
+    const store = options.store || this.syncStateStore;
+    const key = options.labelId ? `${this.connectionKey}:${options.labelId}` : this.connectionKey;
+
+    const startHistoryId = await store.get(key);
+    if (!startHistoryId) {
+      await store.set(key, await this.getCurrentHistoryId(options.signal));
+      return;
+    }
+
+    let cursor = startHistoryId;
+    let pageToken: string | undefined;
+    do {
+      throwIfAborted(options.signal);
+
+      let response;
+      try {
+        response = await this.callGmail(gmail => gmail.users.history.list({
+          userId: 'me',
+          startHistoryId,
+          labelId: options.labelId,
+          historyTypes: options.types ? toHistoryTypes(options.types) : undefined,
+          maxResults: options.pageSize ?? 100,
+          pageToken
+        }, { signal: options.signal }));
+      } catch (error) {
+        // Gmail only keeps about a week of history
+        if (error instanceof NotFoundError && !pageToken) {
+          yield* this.resync(store, key, startHistoryId, options);
+          return;
+        }
+        throw error;
+      }
+
+      const records = response.data.history || [];
+      for (const record of records) {
+        for (const event of toSyncEvents(record)) {
+          throwIfAborted(options.signal);
+          yield event;
+        }
+      }
+
+      pageToken = response.data.nextPageToken || undefined;
+      cursor = pageToken
+        ? records[records.length - 1]?.id || cursor
+        : response.data.historyId || cursor;
+      await store.set(key, cursor);
+    } while (pageToken);
+  }
+
+  private async *resync(
+    store: SyncStateStore,
+    key: string,
+    previousHistoryId: string,
+    options: GmailSyncOptions
+  ): AsyncGenerator<GmailSyncEvent> {
+    // Taken before listing so changes made meanwhile are reported by the next sync
+    const historyId = await this.getCurrentHistoryId(options.signal);
+    yield { type: 'resync', historyId, previousHistoryId };
+
+    if (!options.types || options.types.includes('messageAdded')) {
+      const messages = this.iterateEmails(options.resyncQuery, {
+        labelIds: options.labelId ? [options.labelId] : undefined,
+        format: 'minimal',
+        limit: options.resyncLimit ?? 100,
+        signal: options.signal
+      });
+      for await (const message of messages) {
+        yield { type: 'messageAdded', historyId, message };
+      }
+    }
+
+    await store.set(key, historyId);
+  }
+
+  private async getCurrentHistoryId(signal?: AbortSignal): Promise<string> {
+    const response = await this.callGmail(gmail => gmail.users.getProfile({ userId: 'me' }, { signal }));
+    return response.data.historyId || '';
+  }
+
   /**
    * Mark emails as read or unread
    * @param messageIds - Array of message IDs to modify
    * @param markAsRead - Whether to mark as read (true) or unread (false)
    */
   public async markEmailsAsRead(messageIds: string[], markAsRead: boolean = true) {
-    const gmail = await this.getGmailClient();
-
     const labelModifications = markAsRead 
       ? { removeLabelIds: ['UNREAD'] }
       : { addLabelIds: ['UNREAD'] };
 
-    const response = await gmail.users.messages.batchModify({
+    const response = await this.callGmail(gmail => gmail.users.messages.batchModify({
       userId: 'me',
       requestBody: {
         ids: messageIds,
         ...labelModifications
       }
-    });
+    }));
 
     return {
       success: true,
@@ -191,14 +664,12 @@ export class GmailIntegration extends Integration<OAuth2Credentials> {
    * @param messageIds - Array of message IDs to delete
    */
   public async deleteEmails(messageIds: string[]) {
-    const gmail = await this.getGmailClient();
-
-    const response = await gmail.users.messages.batchDelete({
+    const response = await this.callGmail(gmail => gmail.users.messages.batchDelete({
       userId: 'me',
       requestBody: {
         ids: messageIds
       }
-    });
+    }));
 
     return {
       success: true,
@@ -207,6 +678,12 @@ export class GmailIntegration extends Integration<OAuth2Credentials> {
     };
   }
 
+  /**
+   * Create a draft email
+   * @param options - Recipients, subject, text and/or HTML body, attachments and headers
+   * @throws ValidationError if a header contains line breaks
+   */
+  public async createDraft(options: EmailMessageOptions): Promise<IntegrationResponse<gmail_v1.Schema$Draft>>;
   /**
    * Create a draft email
    * @param to - Recipient email address(es)
@@ -224,36 +701,25 @@ export class GmailIntegration extends Integration<OAuth2Credentials> {
     from?: string,
     cc?: string | string[],
     bcc?: string | string[],
+    isHtml?: boolean
+  ): Promise<IntegrationResponse<gmail_v1.Schema$Draft>>;
+  public async createDraft(
+    to: string | string[] | EmailMessageOptions,
+    subject?: string,
+    body?: string,
+    from?: string,
+    cc?: string | string[],
+    bcc?: string | string[],
     isHtml: boolean = false
   ) {
-    const gmail = await this.getGmailClient();
-
-    const toAddresses = Array.isArray(to) ? to.join(', ') : to;
-    const ccAddresses = cc ? (Array.isArray(cc) ? cc.join(', ') : cc) : '';
-    const bccAddresses = bcc ? (Array.isArray(bcc) ? bcc.join(', ') : bcc) : '';
-
-    let emailContent = `To: ${toAddresses}\r\n`;
-    if (from) emailContent += `From: ${from}\r\n`;
-    if (ccAddresses) emailContent += `Cc: ${ccAddresses}\r\n`;
-    if (bccAddresses) emailContent += `Bcc: ${bccAddresses}\r\n`;
-    emailContent += `Subject: ${subject}\r\n`;
-    emailContent += `Content-Type: ${isHtml ? 'text/html' : 'text/plain'}; charset=utf-8\r\n\r\n`;
-    emailContent += body;
-
-    const encodedMessage = Buffer.from(emailContent)
-      .toString('base64')
-      .replace(/\+/g, '-')
-      .replace(/\//g, '_')
-      .replace(/=+$/, '');
-
-    const response = await gmail.users.drafts.create({
+    const message = await composeMessage(toMessageOptions(to, subject, body, from, cc, bcc, isHtml));
+
+    const response = await this.callGmail(gmail => gmail.users.drafts.create({
       userId: 'me',
       requestBody: {
-        message: {
-          raw: encodedMessage
-        }
+        message
       }
-    });
+    }));
 
     return {
       success: true,
@@ -261,15 +727,131 @@ export class GmailIntegration extends Integration<OAuth2Credentials> {
       message: 'Draft created successfully'
     };
   }
+
+  /**
+   * List drafts
+   * @param query - Gmail search query (optional)
+   * @param maxResults - Maximum number of drafts to return (default: 10)
+   * @param pageToken - Token for pagination
+   */
+  public async listDrafts(
+    query?: string,
+    maxResults: number = 10,
+    pageToken?: string
+  ): Promise<IntegrationResponse<gmail_v1.Schema$ListDraftsResponse>> {
+    const response = await this.callGmail(gmail => gmail.users.drafts.list({
+      userId: 'me',
+      q: query,
+      maxResults,
+      pageToken
+    }));
+
+    return {
+      success: true,
+      data: response.data,
+      message: 'Drafts retrieved successfully'
+    };
+  }
+
+  /**
+   * Get a draft and its message
+   * @param draftId - The ID of the draft
+   * @param format - Format of the message (default: 'full')
+   */
+  public async getDraft(
+    draftId: string,
+    format: 'minimal' | 'full' | 'raw' | 'metadata' = 'full'
+  ): Promise<IntegrationResponse<gmail_v1.Schema$Draft>> {
+    const response = await this.callGmail(gmail => gmail.users.drafts.get({
+      userId: 'me',
+      id: draftId,
+      format
+    }));
+
+    return {
+      success: true,
+      data: response.data,
+      message: 'Draft retrieved successfully'
+    };
+  }
+
+  /**
+   * Replace the content of a draft
+   * The draft stays in its thread, so reply drafts remain replies
+   * @param draftId - The ID of the draft
+   * @param options - The new message, composed like createDraft
+   */
+  public async updateDraft(draftId: string, options: EmailMessageOptions): Promise<IntegrationResponse<gmail_v1.Schema$Draft>> {
+    const current = await this.getDraft(draftId, 'minimal');
+    const message = await composeMessage(options, current.data.message?.threadId || undefined);
+
+    const response = await this.callGmail(gmail => gmail.users.drafts.update({
+      userId: 'me',
+      id: draftId,
+      requestBody: {
+        id: draftId,
+        message
+      }
+    }));
+
+    return {
+      success: true,
+      data: response.data,
+      message: 'Draft updated successfully'
+    };
+  }
+
+  /**
+   * Send a draft, optionally replacing its content first
+   * @param draftId - The ID of the draft
+   * @param options - New message to send instead of the saved one (optional)
+   */
+  public async sendDraft(draftId: string, options?: EmailMessageOptions): Promise<IntegrationResponse<gmail_v1.Schema$Message>> {
+    let message: gmail_v1.Schema$Message | undefined;
+    if (options) {
+      const current = await this.getDraft(draftId, 'minimal');
+      message = await composeMessage(options, current.data.message?.threadId || undefined);
+    }
+
+    const response = await this.callGmail(gmail => gmail.users.drafts.send({
+      userId: 'me',
+      requestBody: {
+        id: draftId,
+        message
+      }
+    }));
+
+    return {
+      success: true,
+      data: response.data,
+      message: 'Draft sent successfully'
+    };
+  }
+
+  /**
+   * Permanently delete a draft
+   * @param draftId - The ID of the draft
+   */
+  public async deleteDraft(draftId: string): Promise<IntegrationResponse<void>> {
+    const response = await this.callGmail(gmail => gmail.users.drafts.delete({
+      userId: 'me',
+      id: draftId
+    }));
+
+    return {
+      success: true,
+      data: response.data,
+      message: 'Draft deleted successfully'
+    };
+  }
+
   /**
    * Get all labels
    */
   public async getLabels() {
-    const gmail = await this.getGmailClient();
-
-    const response = await gmail.users.labels.list({
+    const response = await this.callGmail(gmail => gmail.users.labels.list({
       userId: 'me'
-    });
+    }));
 
     return {
       success: true,
@@ -278,15 +860,196 @@ export class GmailIntegration extends Integration<OAuth2Credentials> {
     };
   }
 
+  /**
+   * Get a label by its name (case-insensitive, nested labels use "Parent/Child")
+   * @param name - Label name
+   * @throws NotFoundError if no label has this name
+   */
+  public async getLabelByName(name: string): Promise<IntegrationResponse<gmail_v1.Schema$Label>> {
+    const label = await this.findLabel(name);
+    if (!label) {
+      throw new NotFoundError(`Label not found: ${name}`, { integration: this.name, status: 404 });
+    }
+
+    return {
+      success: true,
+      data: label,
+      message: 'Label retrieved successfully'
+    };
+  }
+
+  /**
+   * Resolve label names to label IDs, IDs (including system labels like INBOX) are returned unchanged
+   * @param labels - Label names or IDs
+   * @throws NotFoundError if a label cannot be found
+   */
+  public async resolveLabelIds(labels: string[]): Promise<IntegrationResponse<string[]>> {
+    const response = await this.callGmail(gmail => gmail.users.labels.list({ userId: 'me' }));
+    const existing = response.data.labels || [];
+
+    const labelIds = labels.map(nameOrId => {
+      const label = existing.find(candidate => candidate.id === nameOrId) || findByName(existing, nameOrId);
+      if (!label?.id) {
+        throw new NotFoundError(`Label not found: ${nameOrId}`, { integration: this.name, status: 404 });
+      }
+      return label.id;
+    });
+
+    return {
+      success: true,
+      data: labelIds,
+      message: 'Label IDs resolved successfully'
+    };
+  }
+
+  /**
+   * Create a label
+   * @param name - Label name, use "Parent/Child" for nested labels
+   * @param options - Color and visibility
+   */
+  public async createLabel(name: string, options: LabelOptions = {}) {
+    const response = await this.callGmail(gmail => gmail.users.labels.create({
+      userId: 'me',
+      requestBody: { name, ...toLabelBody(options) }
+    }));
+
+    return {
+      success: true,
+      data: response.data,
+      message: 'Label created successfully'
+    };
+  }
+
+  /**
+   * Get the label with the given name, creating it if it does not exist
+   * Safe to call repeatedly; the options only apply when the label is created
+   * @param name - Label name, use "Parent/Child" for nested labels
+   * @param options - Color and visibility of a new label
+   */
+  public async ensureLabel(name: string, options: LabelOptions = {}): Promise<IntegrationResponse<gmail_v1.Schema$Label>> {
+    const existing = await this.findLabel(name);
+    if (existing) {
+      return {
+        success: true,
+        data: existing,
+        message: 'Label already exists'
+      };
+    }
+
+    try {
+      return await this.createLabel(name, options);
+    } catch (error) {
+      // Created concurrently by another run
+      const created = error instanceof ValidationError && error.status === 409 ? await this.findLabel(name) : undefined;
+      if (!created) {
+        throw error;
+      }
+      return {
+        success: true,
+        data: created,
+        message: 'Label already exists'
+      };
+    }
+  }
+
+  /**
+   * Update a label: rename it, change its color or visibility
+   * @param labelId - ID of the label
+   * @param options - New name, color and visibility; omitted fields are left unchanged
+   */
+  public async updateLabel(labelId: string, options: LabelOptions & { name?: string }) {
+    const response = await this.callGmail(gmail => gmail.users.labels.patch({
+      userId: 'me',
+      id: labelId,
+      requestBody: { name: options.name, ...toLabelBody(options) }
+    }));
+
+    return {
+      success: true,
+      data: response.data,
+      message: 'Label updated successfully'
+    };
+  }
+
+  /**
+   * Delete a label, removing it from all messages
+   * @param labelId - ID of the label
+   */
+  public async deleteLabel(labelId: string) {
+    const response = await this.callGmail(gmail => gmail.users.labels.delete({
+      userId: 'me',
+      id: labelId
+    }));
+
+    return {
+      success: true,
+      data: response.data,
+      message: 'Label deleted successfully'
+    };
+  }
+
+  private async findLabel(name: string): Promise<gmail_v1.Schema$Label | undefined> {
+    const response = await this.callGmail(gmail => gmail.users.labels.list({ userId: 'me' }));
+    return findByName(response.data.labels || [], name);
+  }
+
+  /**
+   * List the filters of the mailbox
+   */
+  public async listFilters() {
+    const response = await this.callGmail(gmail => gmail.users.settings.filters.list({
+      userId: 'me'
+    }));
+
+    return {
+      success: true,
+      data: response.data.filter || [],
+      message: 'Filters retrieved successfully'
+    };
+  }
+
+  /**
+   * Create a filter applied to incoming messages
+   * @param criteria - Messages the filter matches, e.g. `{ from: 'billing@example.com' }`
+   * @param action - What to do with them, e.g. `{ addLabelIds: ['Label_1'], removeLabelIds: ['INBOX'] }`
+   */
+  public async createFilter(criteria: gmail_v1.Schema$FilterCriteria, action: gmail_v1.Schema$FilterAction) {
+    const response = await this.callGmail(gmail => gmail.users.settings.filters.create({
+      userId: 'me',
+      requestBody: { criteria, action }
+    }));
+
+    return {
+      success: true,
+      data: response.data,
+      message: 'Filter created successfully'
+    };
+  }
+
+  /**
+   * Delete a filter
+   * @param filterId - ID of the filter
+   */
+  public async deleteFilter(filterId: string) {
+    const response = await this.callGmail(gmail => gmail.users.settings.filters.delete({
+      userId: 'me',
+      id: filterId
+    }));
+
+    return {
+      success: true,
+      data: response.data,
+      message: 'Filter deleted successfully'
+    };
+  }
+
   /**
    * Get user profile information
    */
   public async getProfile() {
-    const gmail = await this.getGmailClient();
-
-    const response = await gmail.users.getProfile({
+    const response = await this.callGmail(gmail => gmail.users.getProfile({
       userId: 'me'
-    });
+    }));
 
     return {
       success: true,
@@ -301,15 +1064,13 @@ export class GmailIntegration extends Integration<OAuth2Credentials> {
    * @param labelIds - Array of label IDs to add
    */
   public async addLabelsToEmails(messageIds: string[], labelIds: string[]) {
-    const gmail = await this.getGmailClient();
-
-    const response = await gmail.users.messages.batchModify({
+    const response = await this.callGmail(gmail => gmail.users.messages.batchModify({
       userId: 'me',
       requestBody: {
         ids: messageIds,
         addLabelIds: labelIds
       }
-    });
+    }));
 
     return {
       success: true,
@@ -324,15 +1085,13 @@ export class GmailIntegration extends Integration<OAuth2Credentials> {
    * @param labelIds - Array of label IDs to remove
    */
   public async removeLabelsFromEmails(messageIds: string[], labelIds: string[]) {
-    const gmail = await this.getGmailClient();
-
-    const response = await gmail.users.messages.batchModify({
+    const response = await this.callGmail(gmail => gmail.users.messages.batchModify({
       userId: 'me',
       requestBody: {
         ids: messageIds,
         removeLabelIds: labelIds
       }
-    });
+    }));
 
     return {
       success: true,
@@ -340,4 +1099,57 @@ export class GmailIntegration extends Integration<OAuth2Credentials> {
       message: 'Labels removed from emails successfully'
     };
   }
-}
\ No newline at end of file
+}
+
+/**
+ * Normalize the positional arguments of sendEmail/createDraft into message options
+ */
+function toMessageOptions(
+  to: string | string[] | EmailMessageOptions,
+  subject: string = '',
+  body: string = '',
+  from?: string,
+  cc?: string | string[],
+  bcc?: string | string[],
+  isHtml: boolean = false
+): EmailMessageOptions {
+  if (typeof to === 'object' && !Array.isArray(to)) {
+    return to;
+  }
+
+  return {
+    to,
+    subject,
+    from,
+    cc,
+    bcc,
+    ...(isHtml ? { html: body } : { text: body })
+  };
+}
+
+/**
+ * Compose the Gmail message resource (raw MIME content) of an email
+ */
+async function composeMessage(options: EmailMessageOptions, threadId?: string): Promise<gmail_v1.Schema$Message> {
+  return {
+    raw: encodeRawMessage(await buildMimeMessage(options)),
+    threadId
+  };
+}
+
+function toList(addresses: string | string[] | undefined): string[] {
+  return addresses === undefined ? [] : Array.isArray(addresses) ? addresses : [addresses];
+}
+
+function toLabelBody(options: LabelOptions): gmail_v1.Schema$Label {
+  return {
+    color: options.color,
+    labelListVisibility: options.labelListVisibility,
+    messageListVisibility: options.messageListVisibility
+  };
+}
+
+function findByName(labels: gmail_v1.Schema$Label[], name: string): gmail_v1.Schema$Label | undefined {
+  const wanted = name.trim().toLowerCase();
+  return labels.find(label => (label.name || '').toLowerCase() === wanted);
+}
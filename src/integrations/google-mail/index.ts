@@ -1 +1,17 @@
-export { GmailIntegration } from './google-mail';
\ No newline at end of file
+export { GmailIntegration } from './google-mail';
+export type { IterateEmailsOptions, IterateDraftsOptions, ReplyBody, ReplyOptions, ForwardOptions, GmailSyncOptions, LabelOptions } from './google-mail';
+export { buildMimeMessage, encodeRawMessage } from './mime';
+export type { EmailMessageOptions, EmailAttachment } from './mime';
+export { InMemorySyncStateStore } from './sync';
+export type {
+  SyncStateStore,
+  GmailSyncEvent,
+  GmailSyncEventType,
+  MessageAddedEvent,
+  MessageDeletedEvent,
+  LabelsAddedEvent,
+  LabelsRemovedEvent,
+  ResyncEvent
+} from './sync';
+export { parseGmailMessage, parseAddressList, decodeMimeWords, decodeQuotedPrintable } from './parser';
+export type { ParsedEmail, EmailAddress, EmailAttachmentInfo } from './parser';
@@ -0,0 +1,228 @@
+import { randomBytes } from 'crypto';
+import { Readable } from 'stream';
+import { ValidationError } from '../../errors';
+
+/**
+ * File attached to an email
+ * Set contentId to reference an inline image from the HTML body (`<img src="cid:logo">`)
+ */
+export interface EmailAttachment {
+  filename: string;
+  content: Buffer | Readable | string;
+  contentType?: string;
+  contentId?: string;
+}
+
+/**
+ * Options used to compose an email
+ * Provide text, html or both (sent as multipart/alternative with the text as fallback)
+ */
+export interface EmailMessageOptions {
+  to: string | string[];
+  subject: string;
+  text?: string;
+  html?: string;
+  from?: string;
+  cc?: string | string[];
+  bcc?: string | string[];
+  replyTo?: string | string[];
+  attachments?: EmailAttachment[];
+  headers?: Record<string, string>;
+}
+
+interface MimePart {
+  headers: Array<[string, string]>;
+  body: Buffer | MimePart[];
+  boundary?: string;
+}
+
+const INTEGRATION = 'google-mail';
+
+/**
+ * Build an RFC 5322 message from the options
+ * @throws ValidationError if a header contains line breaks or the message has no body
+ */
+export async function buildMimeMessage(options: EmailMessageOptions): Promise<Buffer> {
+  if (options.text === undefined && options.html === undefined) {
+    throw new ValidationError('Email requires a text or html body', { integration: INTEGRATION });
+  }
+
+  const headers: Array<[string, string]> = [];
+  if (options.from) headers.push(['From', formatAddresses(options.from)]);
+  headers.push(['To', formatAddresses(options.to)]);
+  if (hasAddresses(options.cc)) headers.push(['Cc', formatAddresses(options.cc)]);
+  if (hasAddresses(options.bcc)) headers.push(['Bcc', formatAddresses(options.bcc)]);
+  if (hasAddresses(options.replyTo)) headers.push(['Reply-To', formatAddresses(options.replyTo)]);
+  headers.push(['Subject', encodeHeaderValue(assertHeaderValue(options.subject, 'Subject'))]);
+
+  for (const [name, value] of Object.entries(options.headers || {})) {
+    if (!/^[!-9;-~]+$/.test(name)) {
+      throw new ValidationError(`Invalid header name: ${JSON.stringify(name)}`, { integration: INTEGRATION });
+    }
+    headers.push([name, encodeHeaderValue(assertHeaderValue(value, name))]);
+  }
+
+  headers.push(['MIME-Version', '1.0']);
+
+  const attachments = await Promise.all((options.attachments || []).map(toAttachmentPart));
+  const inline = attachments.filter(part => part.inline).map(part => part.part);
+  const regular = attachments.filter(part => !part.inline).map(part => part.part);
+
+  let htmlPart = options.html !== undefined ? textPart(options.html, 'text/html') : undefined;
+  if (htmlPart && inline.length > 0) {
+    htmlPart = multipart('related', [htmlPart, ...inline]);
+  }
+
+  const textBody = options.text !== undefined ? textPart(options.text, 'text/plain') : undefined;
+  let body: MimePart = textBody && htmlPart
+    ? multipart('alternative', [textBody, htmlPart])
+    : (htmlPart || textBody)!;
+
+  if (regular.length > 0) {
+    body = multipart('mixed', [body, ...regular]);
+  }
+
+  return serializePart({ ...body, headers: [...headers, ...body.headers] });
+}
+
+/**
+ * Encode a message for the Gmail API `raw` field (base64url without padding)
+ */
+export function encodeRawMessage(message: Buffer): string {
+  return message
+    .toString('base64')
+    .replace(/\+/g, '-')
+    .replace(/\//g, '_')
+    .replace(/=+$/, '');
+}
+
+/**
+ * Format one or more addresses for an address header, encoding non-ASCII display names
+ */
+export function formatAddresses(addresses: string | string[]): string {
+  const list = Array.isArray(addresses) ? addresses : [addresses];
+
+  return list.map(address => {
+    assertHeaderValue(address, 'address');
+    const match = address.trim().match(/^(.*?)\s*<([^<>]+)>$/);
+    if (!match || !match[1]) {
+      return address.trim();
+    }
+
+    const name = match[1].replace(/^"(.*)"$/, '$1');
+    return `${isAscii(name) ? match[1] : encodeWords(name)} <${match[2]}>`;
+  }).join(', ');
+}
+
+/**
+ * Encode a header value with RFC 2047 encoded words when it contains non-ASCII characters
+ */
+export function encodeHeaderValue(value: string): string {
+  return isAscii(value) ? value : encodeWords(value);
+}
+
+function hasAddresses(addresses: string | string[] | undefined): addresses is string | string[] {
+  return Array.isArray(addresses) ? addresses.length > 0 : !!addresses;
+}
+
+function assertHeaderValue(value: string, name: string): string {
+  if (/[\r\n]/.test(value)) {
+    throw new ValidationError(`Line breaks are not allowed in ${name}`, { integration: INTEGRATION });
+  }
+  return value;
+}
+
+function isAscii(value: string): boolean {
+  return /^[\x20-\x7e]*$/.test(value);
+}
+
+function encodeWords(value: string): string {
+  // Keep each encoded word under 75 characters without splitting multi-byte characters
+  const words: string[] = [];
+  let current = '';
+  for (const char of Array.from(value)) {
+    if (Buffer.byteLength(current + char) > 45) {
+      words.push(current);
+      current = '';
+    }
+    current += char;
+  }
+  words.push(current);
+
+  return words.map(word => `=?UTF-8?B?${Buffer.from(word).toString('base64')}?=`).join('\r\n ');
+}
+
+function textPart(content: string, contentType: string): MimePart {
+  return {
+    headers: [
+      ['Content-Type', `${contentType}; charset=UTF-8`],
+      ['Content-Transfer-Encoding', 'base64']
+    ],
+    body: Buffer.from(content)
+  };
+}
+
+function multipart(subtype: string, parts: MimePart[]): MimePart {
+  const boundary = `kuwe-${randomBytes(12).toString('hex')}`;
+  return {
+    headers: [['Content-Type', `multipart/${subtype}; boundary="${boundary}"`]],
+    body: parts,
+    boundary
+  };
+}
+
+async function toAttachmentPart(attachment: EmailAttachment): Promise<{ part: MimePart; inline: boolean }> {
+  const filename = assertHeaderValue(attachment.filename, 'attachment filename');
+  const contentType = assertHeaderValue(attachment.contentType || 'application/octet-stream', 'attachment content type');
+  const inline = attachment.contentId !== undefined;
+
+  const headers: Array<[string, string]> = [
+    ['Content-Type', `${contentType}; ${formatParameter('name', filename)}`],
+    ['Content-Transfer-Encoding', 'base64'],
+    ['Content-Disposition', `${inline ? 'inline' : 'attachment'}; ${formatParameter('filename', filename)}`]
+  ];
+  if (inline) {
+    headers.push(['Content-ID', `<${assertHeaderValue(attachment.contentId!, 'attachment content ID')}>`]);
+  }
+
+  return { part: { headers, body: await readContent(attachment.content) }, inline };
+}
+
+function formatParameter(name: string, value: string): string {
+  if (isAscii(value)) {
+    return `${name}="${value.replace(/["\\]/g, '\\$&')}"`;
+  }
+  // RFC 2231 extended parameter for non-ASCII filenames
+  return `${name}*=UTF-8''${encodeURIComponent(value).replace(/['()*]/g, c => `%${c.charCodeAt(0).toString(16).toUpperCase()}`)}`;
+}
+
+async function readContent(content: Buffer | Readable | string): Promise<Buffer> {
+  if (Buffer.isBuffer(content)) {
+    return content;
+  }
+  if (typeof content === 'string') {
+    return Buffer.from(content);
+  }
+
+  const chunks: Buffer[] = [];
+  for await (const chunk of content) {
+    chunks.push(Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk));
+  }
+  return Buffer.concat(chunks);
+}
+
+function serializePart(part: MimePart): Buffer {
+  const head = part.headers.map(([name, value]) => `${name}: ${value}\r\n`).join('') + '\r\n';
+
+  if (Buffer.isBuffer(part.body)) {
+    const encoded = part.body.toString('base64').replace(/.{76}(?=.)/g, '$&\r\n');
+    return Buffer.from(`${head}${encoded}\r\n`);
+  }
+
+  const chunks: Buffer[] = [Buffer.from(head)];
+  for (const child of part.body) {
+    chunks.push(Buffer.from(`--${part.boundary}\r\n`), serializePart(child));
+  }
+  chunks.push(Buffer.from(`--${part.boundary}--\r\n`));
+  return Buffer.concat(chunks);
+}
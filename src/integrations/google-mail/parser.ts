@@ -0,0 +1,242 @@
+import type { gmail_v1 } from 'googleapis';
+
+/**
+ * Email address with its optional display name
+ */
+export interface EmailAddress {
+  name?: string;
+  address: string;
+}
+
+/**
+ * Metadata of a file attached to an email
+ * Download the content with `downloadAttachment(messageId, attachmentId)`
+ */
+export interface EmailAttachmentInfo {
+  partId: string;
+  attachmentId?: string;
+  filename: string;
+  mimeType: string;
+  size: number;
+  contentId?: string;
+  inline: boolean;
+}
+
+/**
+ * Email with decoded headers and bodies
+ */
+export interface ParsedEmail {
+  id: string;
+  threadId: string;
+  labelIds: string[];
+  snippet: string;
+  historyId?: string;
+  internalDate?: Date;
+  messageId?: string;
+  inReplyTo?: string;
+  references: string[];
+  from?: EmailAddress;
+  to: EmailAddress[];
+  cc: EmailAddress[];
+  bcc: EmailAddress[];
+  replyTo: EmailAddress[];
+  subject: string;
+  date?: Date;
+  text?: string;
+  html?: string;
+  attachments: EmailAttachmentInfo[];
+  /** All headers, keyed by lower-cased name (last value wins) */
+  headers: Record<string, string>;
+}
+
+/**
+ * Fetches the content of a body part stored as an attachment (large bodies)
+ */
+export type AttachmentFetcher = (attachmentId: string) => Promise<Buffer>;
+
+/**
+ * Convert a Gmail message in `full` format into a ParsedEmail
+ * @param message - Message returned by users.messages.get
+ * @param fetchAttachment - Used to fetch text bodies that Gmail returns as attachments
+ */
+export async function parseGmailMessage(message: gmail_v1.Schema$Message, fetchAttachment: AttachmentFetcher): Promise<ParsedEmail> {
+  // Address headers are split before decoding, decoded names may contain commas
+  const rawHeaders: Record<string, string> = {};
+  const headers: Record<string, string> = {};
+  for (const header of message.payload?.headers || []) {
+    if (header.name) {
+      rawHeaders[header.name.toLowerCase()] = header.value || '';
+      headers[header.name.toLowerCase()] = decodeMimeWords(header.value || '');
+    }
+  }
+
+  const parsed: ParsedEmail = {
+    id: message.id || '',
+    threadId: message.threadId || '',
+    labelIds: message.labelIds || [],
+    snippet: message.snippet || '',
+    historyId: message.historyId || undefined,
+    internalDate: message.internalDate ? new Date(Number(message.internalDate)) : undefined,
+    messageId: headers['message-id'],
+    inReplyTo: headers['in-reply-to'],
+    references: headers['references'] ? headers['references'].split(/\s+/).filter(Boolean) : [],
+    from: parseAddressList(rawHeaders['from'])[0],
+    to: parseAddressList(rawHeaders['to']),
+    cc: parseAddressList(rawHeaders['cc']),
+    bcc: parseAddressList(rawHeaders['bcc']),
+    replyTo: parseAddressList(rawHeaders['reply-to']),
+    subject: headers['subject'] || '',
+    date: parseDate(headers['date']),
+    attachments: [],
+    headers
+  };
+
+  if (message.payload) {
+    await collectParts(message.payload, parsed, fetchAttachment);
+  }
+
+  return parsed;
+}
+
+async function collectParts(part: gmail_v1.Schema$MessagePart, parsed: ParsedEmail, fetchAttachment: AttachmentFetcher): Promise<void> {
+  const mimeType = (part.mimeType || '').toLowerCase();
+
+  if (mimeType.startsWith('multipart/')) {
+    for (const child of part.parts || []) {
+      await collectParts(child, parsed, fetchAttachment);
+    }
+    return;
+  }
+
+  const headers = new Map((part.headers || []).map(header => [(header.name || '').toLowerCase(), header.value || '']));
+  const disposition = headers.get('content-disposition') || '';
+  const filename = part.filename ? decodeMimeWords(part.filename) : '';
+  const isBody = !filename && !/^attachment/i.test(disposition) && (mimeType === 'text/plain' || mimeType === 'text/html');
+
+  if (!isBody) {
+    const contentId = headers.get('content-id')?.replace(/^<|>$/g, '');
+    parsed.attachments.push({
+      partId: part.partId || '',
+      attachmentId: part.body?.attachmentId || undefined,
+      filename,
+      mimeType,
+      size: part.body?.size || 0,
+      contentId,
+      inline: /^inline/i.test(disposition) || (!!contentId && !/^attachment/i.test(disposition))
+    });
+    return;
+  }
+
+  // The first text/plain and text/html parts are the bodies, later ones are usually quoted or forwarded content
+  const key = mimeType === 'text/plain' ? 'text' : 'html';
+  if (parsed[key] !== undefined) {
+    return;
+  }
+
+  const data = part.body?.data
+    ? Buffer.from(part.body.data, 'base64')
+    : part.body?.attachmentId ? await fetchAttachment(part.body.attachmentId) : Buffer.alloc(0);
+
+  parsed[key] = decodeCharset(data, getParameter(headers.get('content-type') || '', 'charset'));
+}
+
+/**
+ * Decode bytes in the given charset, falling back to UTF-8 for unknown charsets
+ */
+export function decodeCharset(data: Buffer, charset: string = 'utf-8'): string {
+  try {
+    return new TextDecoder(charset.toLowerCase()).decode(data);
+  } catch {
+    return data.toString('utf8');
+  }
+}
+
+/**
+ * Decode RFC 2047 encoded words (`=?charset?B|Q?...?=`) in a header value
+ */
+export function decodeMimeWords(value: string): string {
+  return value
+    // Whitespace between adjacent encoded words is not part of the content
+    .replace(/(=\?[^?]+\?[BbQq]\?[^?]*\?=)\s+(?==\?[^?]+\?[BbQq]\?[^?]*\?=)/g, '$1')
+    .replace(/=\?([^?]+)\?([BbQq])\?([^?]*)\?=/g, (_match, charset: string, encoding: string, text: string) => {
+      const bytes = encoding.toUpperCase() === 'B'
+        ? Buffer.from(text, 'base64')
+        : decodeQuotedPrintable(text.replace(/_/g, ' '));
+      // Language suffixes (RFC 2231) are ignored: "UTF-8*en"
+      return decodeCharset(bytes, charset.split('*')[0]);
+    });
+}
+
+/**
+ * Decode quoted-printable content into bytes
+ */
+export function decodeQuotedPrintable(value: string): Buffer {
+  const bytes: number[] = [];
+  const input = value.replace(/=\r?\n/g, '');
+
+  for (let i = 0; i < input.length; i++) {
+    const hex = input.slice(i + 1, i + 3);
+    if (input[i] === '=' && /^[0-9A-Fa-f]{2}$/.test(hex)) {
+      bytes.push(parseInt(hex, 16));
+      i += 2;
+    } else {
+      bytes.push(...Buffer.from(input[i]));
+    }
+  }
+
+  return Buffer.from(bytes);
+}
+
+/**
+ * Parse an address header into addresses, handling quoted names and commas inside them
+ * Encoded display names are decoded
+ */
+export function parseAddressList(value: string | undefined): EmailAddress[] {
+  if (!value) {
+    return [];
+  }
+
+  const entries: string[] = [];
+  let current = '';
+  let quoted = false;
+  let angle = false;
+  for (const char of value) {
+    if (char === '"') quoted = !quoted;
+    if (!quoted && char === '<') angle = true;
+    if (!quoted && char === '>') angle = false;
+
+    if (char === ',' && !quoted && !angle) {
+      entries.push(current);
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  entries.push(current);
+
+  return entries
+    .map(entry => entry.trim())
+    .filter(Boolean)
+    .map(entry => {
+      const match = entry.match(/^(.*?)\s*<([^<>]*)>$/);
+      if (!match) {
+        return { address: entry };
+      }
+
+      const name = decodeMimeWords(match[1].trim().replace(/^"(.*)"$/, '$1').replace(/\\(.)/g, '$1'));
+      return name ? { name, address: match[2].trim() } : { address: match[2].trim() };
+    });
+}
+
+function parseDate(value: string | undefined): Date | undefined {
+  if (!value) {
+    return undefined;
+  }
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? undefined : date;
+}
+
+function getParameter(headerValue: string, name: string): string | undefined {
+  const match = new RegExp(`;\\s*${name}\\s*=\\s*"?([^";]+)"?`, 'i').exec(headerValue);
+  return match?.[1].trim();
+}
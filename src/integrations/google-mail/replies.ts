@@ -0,0 +1,102 @@
+import type { EmailAddress, ParsedEmail } from './parser';
+
+/**
+ * Prefix a subject with "Re:" unless it already is a reply
+ */
+export function replySubject(subject: string): string {
+  return /^\s*re\s*:/i.test(subject) ? subject : `Re: ${subject}`;
+}
+
+/**
+ * Prefix a subject with "Fwd:" unless it already is a forward
+ */
+export function forwardSubject(subject: string): string {
+  return /^\s*(fwd?|tr)\s*:/i.test(subject) ? subject : `Fwd: ${subject}`;
+}
+
+/**
+ * Compute the recipients of a reply
+ * Replies go to Reply-To (or From); reply-all adds the original To and Cc recipients.
+ * The authenticated address is excluded, except when replying to one's own message.
+ * @param original - The message being replied to
+ * @param selfAddress - Address of the authenticated user
+ * @param replyAll - Whether to reply to all recipients
+ */
+export function getReplyRecipients(
+  original: ParsedEmail,
+  selfAddress: string,
+  replyAll: boolean
+): { to: EmailAddress[]; cc: EmailAddress[] } {
+  const self = selfAddress.toLowerCase();
+  const isOwnMessage = original.from?.address.toLowerCase() === self;
+
+  // Replying to a message we sent goes back to its recipients, like Gmail does
+  const primary = isOwnMessage
+    ? original.to
+    : original.replyTo.length > 0 ? original.replyTo : original.from ? [original.from] : [];
+
+  const seen = new Set<string>([self]);
+  const unique = (addresses: EmailAddress[]) => addresses.filter(address => {
+    const key = address.address.toLowerCase();
+    if (seen.has(key)) {
+      return false;
+    }
+    seen.add(key);
+    return true;
+  });
+
+  const to = unique(primary);
+  if (!replyAll) {
+    return { to, cc: [] };
+  }
+
+  return { to, cc: unique([...(isOwnMessage ? [] : original.to), ...original.cc]) };
+}
+
+/**
+ * Format an address for a message header
+ */
+export function formatAddress(address: EmailAddress): string {
+  return address.name ? `"${address.name.replace(/["\\]/g, '\\$&')}" <${address.address}>` : address.address;
+}
+
+/**
+ * Build the References header of a reply
+ */
+export function replyReferences(original: ParsedEmail): string[] {
+  return original.messageId ? [...original.references, original.messageId] : original.references;
+}
+
+/**
+ * Build the text and HTML bodies of a forward, quoting the original message
+ * @param original - The message being forwarded
+ * @param note - Optional text added above the forwarded message
+ */
+export function buildForwardBodies(original: ParsedEmail, note: string = ''): { text: string; html?: string } {
+  const details: Array<[string, string]> = [
+    ['From', original.from ? formatAddress(original.from) : ''],
+    ['Date', original.date ? original.date.toUTCString() : ''],
+    ['Subject', original.subject],
+    ['To', original.to.map(formatAddress).join(', ')]
+  ];
+  if (original.cc.length > 0) {
+    details.push(['Cc', original.cc.map(formatAddress).join(', ')]);
+  }
+
+  const textHeader = details.map(([name, value]) => `${name}: ${value}`).join('\n');
+  const text = `${note}${note ? '\n\n' : ''}---------- Forwarded message ---------\n${textHeader}\n\n${original.text ?? ''}`;
+
+  if (original.html === undefined) {
+    return { text };
+  }
+
+  const htmlHeader = details.map(([name, value]) => `${name}: ${escapeHtml(value)}<br>`).join('\n');
+  const html = `${note ? `<p>${escapeHtml(note).replace(/\n/g, '<br>')}</p>\n` : ''}` +
+    `<div>---------- Forwarded message ---------<br>\n${htmlHeader}<br>\n</div>\n${original.html}`;
+
+  return { text, html };
+}
+
+function escapeHtml(value: string): string {
+  return value.replace(/[&<>"']/g, char => `&#${char.charCodeAt(0)};`);
+}
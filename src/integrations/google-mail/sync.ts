@@ -0,0 +1,129 @@
+import type { gmail_v1 } from 'googleapis';
+
+/**
+ * Store for sync cursors (the last processed history ID), keyed per connection
+ * Implement it on top of a database or Redis to keep cursors across restarts
+ */
+export interface SyncStateStore {
+  get(key: string): Promise<string | undefined>;
+  set(key: string, historyId: string): Promise<void>;
+  delete(key: string): Promise<void>;
+}
+
+/**
+ * Default sync state store, local to the process
+ */
+export class InMemorySyncStateStore implements SyncStateStore {
+  private entries = new Map<string, string>();
+
+  public async get(key: string): Promise<string | undefined> {
+    return this.entries.get(key);
+  }
+
+  public async set(key: string, historyId: string): Promise<void> {
+    this.entries.set(key, historyId);
+  }
+
+  public async delete(key: string): Promise<void> {
+    this.entries.delete(key);
+  }
+}
+
+/**
+ * A message was added to the mailbox (received, sent or drafted)
+ */
+export interface MessageAddedEvent {
+  type: 'messageAdded';
+  historyId: string;
+  message: gmail_v1.Schema$Message;
+}
+
+/**
+ * A message was permanently deleted
+ */
+export interface MessageDeletedEvent {
+  type: 'messageDeleted';
+  historyId: string;
+  message: gmail_v1.Schema$Message;
+}
+
+/**
+ * Labels were added to a message
+ */
+export interface LabelsAddedEvent {
+  type: 'labelsAdded';
+  historyId: string;
+  message: gmail_v1.Schema$Message;
+  /** The labels that were added */
+  labelIds: string[];
+}
+
+/**
+ * Labels were removed from a message
+ */
+export interface LabelsRemovedEvent {
+  type: 'labelsRemoved';
+  historyId: string;
+  message: gmail_v1.Schema$Message;
+  /** The labels that were removed */
+  labelIds: string[];
+}
+
+/**
+ * The stored history ID expired, changes since then are lost
+ * The following messageAdded events list the current messages instead of new ones
+ */
+export interface ResyncEvent {
+  type: 'resync';
+  historyId: string;
+  previousHistoryId: string;
+}
+
+export type GmailSyncEvent = MessageAddedEvent | MessageDeletedEvent | LabelsAddedEvent | LabelsRemovedEvent | ResyncEvent;
+
+export type GmailSyncEventType = Exclude<GmailSyncEvent['type'], 'resync'>;
+
+const HISTORY_TYPES: Record<GmailSyncEventType, string> = {
+  messageAdded: 'messageAdded',
+  messageDeleted: 'messageDeleted',
+  labelsAdded: 'labelAdded',
+  labelsRemoved: 'labelRemoved'
+};
+
+/**
+ * Map event types to the history types of users.history.list
+ */
+export function toHistoryTypes(types: GmailSyncEventType[]): string[] {
+  return types.map(type => HISTORY_TYPES[type]);
+}
+
+/**
+ * Convert a history record into sync events, in the order Gmail lists them
+ */
+export function toSyncEvents(record: gmail_v1.Schema$History): GmailSyncEvent[] {
+  const historyId = record.id || '';
+  const events: GmailSyncEvent[] = [];
+
+  for (const change of record.messagesAdded || []) {
+    if (change.message) {
+      events.push({ type: 'messageAdded', historyId, message: change.message });
+    }
+  }
+  for (const change of record.messagesDeleted || []) {
+    if (change.message) {
+      events.push({ type: 'messageDeleted', historyId, message: change.message });
+    }
+  }
+  for (const change of record.labelsAdded || []) {
+    if (change.message) {
+      events.push({ type: 'labelsAdded', historyId, message: change.message, labelIds: change.labelIds || [] });
+    }
+  }
+  for (const change of record.labelsRemoved || []) {
+    if (change.message) {
+      events.push({ type: 'labelsRemoved', historyId, message: change.message, labelIds: change.labelIds || [] });
+    }
+  }
+
+  return events;
+}
@@ -0,0 +1,245 @@
+import { ValidationError } from '../../errors';
+
+/**
+ * Structured A1 range, rows and columns are 1-based
+ * Omitted bounds are open: `{ sheet: 'Data', startColumn: 1, endColumn: 3 }` is `Data!A:C`.
+ * Without an end, the range is the start cell, row or column alone: `{ startRow: 2 }` is `2:2`.
+ */
+export interface A1Range {
+  sheet?: string;
+  startColumn?: number;
+  startRow?: number;
+  endColumn?: number;
+  endRow?: number;
+}
+
+/**
+ * A range in A1 notation or as a structured range
+ */
+export type RangeInput = string | A1Range;
+
+const INTEGRATION = 'google-sheet';
+
+/**
+ * Convert a 1-based column index to its letters (1 → A, 27 → AA)
+ */
+export function columnToLetter(column: number): string {
+  if (!Number.isInteger(column) || column < 1) {
+    throw new ValidationError(`Invalid column index: ${column}`, { integration: INTEGRATION });
+  }
+
+  let letters = '';
+  for (let n = column; n > 0; n = Math.floor((n - 1) / 26)) {
+    letters = String.fromCharCode(65 + ((n - 1) % 26)) + letters;
+  }
+  return letters;
+}
+
+/**
+ * Convert column letters to a 1-based column index (A → 1, AA → 27)
+ */
+export function letterToColumn(letters: string): number {
+  if (!/^[A-Za-z]+$/.test(letters)) {
+    throw new ValidationError(`Invalid column letters: ${JSON.stringify(letters)}`, { integration: INTEGRATION });
+  }
+  return letters.toUpperCase().split('').reduce((column, char) => column * 26 + char.charCodeAt(0) - 64, 0);
+}
+
+/**
+ * Quote a sheet name for A1 notation when needed ('My Sheet'!A1), doubling single quotes
+ */
+export function quoteSheetName(sheet: string): string {
+  // Names that look like cell references (A1, R1C1) must be quoted too
+  const plain = /^[A-Za-z_][A-Za-z0-9_]*$/.test(sheet) && !/^[A-Za-z]{1,3}\d+$/.test(sheet) && !/^[Rr]\d*[Cc]\d*$/.test(sheet);
+  return plain ? sheet : `'${sheet.replace(/'/g, "''")}'`;
+}
+
+/**
+ * Parse an A1 range: `Sheet1`, `'My Sheet'!A1:B2`, `A:C`, `2:10`, `A5:C`
+ * @throws ValidationError if the range is not valid A1 notation
+ */
+export function parseA1(range: string): A1Range {
+  const invalid = () => new ValidationError(`Invalid A1 range: ${JSON.stringify(range)}`, { integration: INTEGRATION });
+
+  let sheet: string | undefined;
+  let cells = range.trim();
+
+  if (cells.startsWith("'")) {
+    const match = /^'((?:[^']|'')+)'(?:!(.*))?$/.exec(cells);
+    if (!match) {
+      throw invalid();
+    }
+    sheet = match[1].replace(/''/g, "'");
+    cells = match[2] ?? '';
+  } else if (cells.includes('!')) {
+    const separator = cells.lastIndexOf('!');
+    sheet = cells.slice(0, separator);
+    cells = cells.slice(separator + 1);
+  } else if (!/^\$?[A-Za-z]{0,3}\$?\d+$/.test(cells) && !/^\$?[A-Za-z]{0,3}\$?\d*:\$?[A-Za-z]{0,3}\$?\d*$/.test(cells)) {
+    // A bare name that is not a cell reference is a whole sheet
+    return { sheet: cells };
+  }
+
+  if (!cells) {
+    return { sheet };
+  }
+
+  const [start, end = start] = cells.split(':');
+  const from = parseCell(start);
+  const to = parseCell(end);
+  if (!from || !to) {
+    throw invalid();
+  }
+
+  return compact({
+    sheet,
+    startColumn: from.column,
+    startRow: from.row,
+    endColumn: to.column,
+    endRow: to.row
+  });
+}
+
+/**
+ * Format a structured range in A1 notation
+ */
+export function formatA1(range: A1Range): string {
+  const sheet = range.sheet !== undefined ? quoteSheetName(range.sheet) : undefined;
+  const start = formatCell(range.startColumn, range.startRow);
+  const end = formatCell(range.endColumn, range.endRow);
+
+  if (!start && !end) {
+    if (sheet === undefined) {
+      throw new ValidationError('A range needs a sheet or cells', { integration: INTEGRATION });
+    }
+    return sheet;
+  }
+
+  // Without an end, the start cell, row or column is the whole range (A1, 2:2, A:A)
+  const isCell = (cell: string) => /[A-Z]\d/.test(cell);
+  const first = start || end;
+  const last = end || start;
+  const cells = first === last && isCell(first) ? first : `${first}:${last}`;
+  return sheet !== undefined ? `${sheet}!${cells}` : cells;
+}
+
+/**
+ * Normalize a range input to A1 notation
+ * Sheet names of A1 strings are quoted when needed, other strings (e.g. named ranges) are kept as is
+ */
+export function toA1(range: RangeInput): string {
+  if (typeof range !== 'string') {
+    return formatA1(range);
+  }
+  return range.includes('!') ? formatA1(parseA1(range)) : range;
+}
+
+/**
+ * Normalize a range input to a structured range
+ */
+export function toA1Range(range: RangeInput): A1Range {
+  return typeof range === 'string' ? parseA1(range) : range;
+}
+
+/**
+ * Encode a range for use in a request path
+ */
+export function encodeRange(range: RangeInput): string {
+  return encodeURIComponent(toA1(range));
+}
+
+/**
+ * Move a range by a number of rows and columns (negative values move up and left)
+ * @throws ValidationError if the range would move before row or column 1
+ */
+export function offsetRange(range: RangeInput, rows: number, columns: number = 0): A1Range {
+  const parsed = toA1Range(range);
+  return compact({
+    sheet: parsed.sheet,
+    startColumn: shift(parsed.startColumn, columns),
+    startRow: shift(parsed.startRow, rows),
+    endColumn: shift(parsed.endColumn, columns),
+    endRow: shift(parsed.endRow, rows)
+  });
+}
+
+/**
+ * Grow (or shrink, with negative values) a range by moving its end
+ */
+export function expandRange(range: RangeInput, rows: number, columns: number = 0): A1Range {
+  const parsed = toA1Range(range);
+  const endColumn = parsed.endColumn ?? parsed.startColumn;
+  const endRow = parsed.endRow ?? parsed.startRow;
+  return compact({
+    ...parsed,
+    endColumn: shift(endColumn, columns),
+    endRow: shift(endRow, rows)
+  });
+}
+
+/**
+ * The cells two ranges have in common, undefined if they don't overlap or are on different sheets
+ * A range without a sheet matches any sheet
+ */
+export function intersectRanges(a: RangeInput, b: RangeInput): A1Range | undefined {
+  const first = toA1Range(a);
+  const second = toA1Range(b);
+  if (first.sheet !== undefined && second.sheet !== undefined && first.sheet !== second.sheet) {
+    return undefined;
+  }
+
+  const startColumn = maxBound(first.startColumn, second.startColumn);
+  const startRow = maxBound(first.startRow, second.startRow);
+  const endColumn = minBound(first.endColumn, second.endColumn);
+  const endRow = minBound(first.endRow, second.endRow);
+
+  if ((startColumn !== undefined && endColumn !== undefined && startColumn > endColumn) ||
+    (startRow !== undefined && endRow !== undefined && startRow > endRow)) {
+    return undefined;
+  }
+
+  return compact({ sheet: first.sheet ?? second.sheet, startColumn, startRow, endColumn, endRow });
+}
+
+function parseCell(cell: string): { column?: number; row?: number } | undefined {
+  const match = /^\$?([A-Za-z]{0,3})\$?(\d*)$/.exec(cell);
+  if (!match || (!match[1] && !match[2]) || match[2] === '0') {
+    return undefined;
+  }
+  return {
+    column: match[1] ? letterToColumn(match[1]) : undefined,
+    row: match[2] ? Number(match[2]) : undefined
+  };
+}
+
+function formatCell(column?: number, row?: number): string {
+  return `${column !== undefined ? columnToLetter(column) : ''}${row !== undefined ? row : ''}`;
+}
+
+function shift(value: number | undefined, by: number): number | undefined {
+  if (value === undefined) {
+    return undefined;
+  }
+  if (value + by < 1) {
+    throw new ValidationError('Range would move outside of the sheet', { integration: INTEGRATION });
+  }
+  return value + by;
+}
+
+function maxBound(a?: number, b?: number): number | undefined {
+  return a === undefined ? b : b === undefined ? a : Math.max(a, b);
+}
+
+function minBound(a?: number, b?: number): number | undefined {
+  return a === undefined ? b : b === undefined ? a : Math.min(a, b);
+}
+
+function compact(range: A1Range): A1Range {
+  const result: A1Range = {};
+  for (const key of Object.keys(range) as Array<keyof A1Range>) {
+    if (range[key] !== undefined) {
+      (result as Record<string, unknown>)[key] = range[key];
+    }
+  }
+  return result;
+}
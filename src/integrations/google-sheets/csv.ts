@@ -0,0 +1,169 @@
+import { StringDecoder } from 'string_decoder';
+import { ValidationError } from '../../errors';
+
+/**
+ * Progress of an import or export
+ */
+export interface TransferProgress {
+  /** Rows transferred so far */
+  rows: number;
+  /** Requests sent so far */
+  requests: number;
+}
+
+/**
+ * Options for exporting a range
+ */
+export interface ExportRangeOptions {
+  format: 'csv' | 'jsonl';
+  /** Field delimiter of CSV output (default: ',') */
+  delimiter?: string;
+  /** Values as displayed (default) or raw */
+  valueRenderOption?: 'FORMATTED_VALUE' | 'UNFORMATTED_VALUE';
+  /** Rows read per request (default: 5000) */
+  chunkRows?: number;
+  /** End the destination stream when done (default: true) */
+  end?: boolean;
+  onProgress?: (progress: TransferProgress) => void;
+}
+
+/**
+ * Options for importing CSV data
+ */
+export interface ImportCsvOptions {
+  /** Field delimiter (default: ',') */
+  delimiter?: string;
+  /** Append after the existing rows (default) or overwrite from startRow */
+  mode?: 'append' | 'overwrite';
+  /** First row written in overwrite mode (default: 1) */
+  startRow?: number;
+  /** USER_ENTERED (default) parses numbers, dates and formulas, RAW stores text as is */
+  valueInputOption?: 'RAW' | 'USER_ENTERED';
+  /** Maximum rows per request (default: 5000) */
+  chunkRows?: number;
+  /** Maximum approximate payload size per request (default: 1 MB) */
+  chunkBytes?: number;
+  onProgress?: (progress: TransferProgress) => void;
+}
+
+const INTEGRATION = 'google-sheet';
+
+/**
+ * Incremental RFC 4180 parser: quoted fields may contain delimiters, line breaks and doubled quotes
+ */
+export class CsvParser {
+  private row: string[] = [];
+  private field = '';
+  private quoted = false;
+  private afterQuote = false;
+  private pendingCR = false;
+  private started = false;
+
+  constructor(private readonly delimiter: string = ',') {
+    if (delimiter.length !== 1 || delimiter === '"' || delimiter === '\r' || delimiter === '\n') {
+      throw new ValidationError(`Invalid CSV delimiter: ${JSON.stringify(delimiter)}`, { integration: INTEGRATION });
+    }
+  }
+
+  /**
+   * Parse a chunk of text, returning the rows it completes
+   */
+  public push(text: string): string[][] {
+    const rows: string[][] = [];
+    let input = text;
+    if (!this.started && input.length > 0) {
+      this.started = true;
+      input = input.replace(/^\uFEFF/, '');
+    }
+
+    for (const char of input) {
+      if (this.pendingCR) {
+        this.pendingCR = false;
+        if (char === '\n') {
+          continue;
+        }
+      }
+
+      if (this.quoted) {
+        if (char === '"') {
+          this.quoted = false;
+          this.afterQuote = true;
+        } else {
+          this.field += char;
+        }
+        continue;
+      }
+
+      if (char === '"') {
+        // A quote right after a closing quote is an escaped quote
+        if (this.afterQuote) {
+          this.field += '"';
+        }
+        this.quoted = true;
+        this.afterQuote = false;
+      } else if (char === this.delimiter) {
+        this.endField();
+      } else if (char === '\r' || char === '\n') {
+        this.pendingCR = char === '\r';
+        rows.push(this.endRow());
+      } else {
+        this.field += char;
+        this.afterQuote = false;
+      }
+    }
+
+    return rows;
+  }
+
+  /**
+   * Finish parsing, returning the last row if the input did not end with a line break
+   * @throws ValidationError if a quoted field is not closed
+   */
+  public end(): string[][] {
+    if (this.quoted) {
+      throw new ValidationError('Unterminated quoted field in CSV input', { integration: INTEGRATION });
+    }
+    return this.field !== '' || this.row.length > 0 ? [this.endRow()] : [];
+  }
+
+  private endField(): void {
+    this.row.push(this.field);
+    this.field = '';
+    this.afterQuote = false;
+  }
+
+  private endRow(): string[] {
+    this.endField();
+    const row = this.row;
+    this.row = [];
+    return row;
+  }
+}
+
+/**
+ * Parse a CSV stream into rows
+ * @param source - Readable stream or any async iterable of text or bytes (UTF-8)
+ * @param delimiter - Field delimiter (default: ',')
+ */
+export async function* parseCsv(source: AsyncIterable<string | Buffer>, delimiter: string = ','): AsyncGenerator<string[]> {
+  const parser = new CsvParser(delimiter);
+  const decoder = new StringDecoder('utf8');
+
+  for await (const chunk of source) {
+    yield* parser.push(typeof chunk === 'string' ? chunk : decoder.write(chunk));
+  }
+  yield* parser.push(decoder.end());
+  yield* parser.end();
+}
+
+/**
+ * Format a row as a CSV line (with CRLF), quoting fields when needed
+ */
+export function formatCsvRow(row: unknown[], delimiter: string = ','): string {
+  return row.map(value => {
+    const text = value === undefined || value === null ? '' : String(value);
+    return text.includes(delimiter) || /["\r\n]/.test(text) || text !== text.trim()
+      ? `"${text.replace(/"/g, '""')}"`
+      : text;
+  }).join(delimiter) + '\r\n';
+}
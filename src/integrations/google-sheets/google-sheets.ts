@@ -1,4 +1,95 @@
-import { Integration, OAuth2Credentials, AuthType } from '../base';
+import { once } from 'events';
+import type { Writable } from 'stream';
+import { Integration, IntegrationResponse, OAuth2Credentials, AuthType } from '../base';
+import { NotFoundError, ProviderError, ValidationError } from '../../errors';
+import { ReadRecordsResult, RecordOptions, parseRecords, toRow } from './records';
+import { UpsertOptions, UpsertPlan, UpsertResult, planUpsert } from './upsert';
+import { RangeInput, encodeRange, formatA1, toA1, toA1Range } from './a1';
+import {
+  AddSheetOptions,
+  BatchUpdateReply,
+  BatchUpdateResponse,
+  CellFormatOptions,
+  ConditionalColorRule,
+  CreateSpreadsheetOptions,
+  GridRange,
+  ProtectRangeOptions,
+  ProtectedRange,
+  SheetProperties,
+  SheetRef,
+  Spreadsheet,
+  conditionalColorRequest,
+  formatRequest,
+  toGridRange
+} from './structure';
+import { ExportRangeOptions, ImportCsvOptions, TransferProgress, formatCsvRow, parseCsv } from './csv';
+
+// Last column of a sheet (ZZZ), used for open-ended reads
+const MAX_COLUMN = 18278;
+
+/**
+ * How values are read
+ */
+export interface ReadValuesOptions {
+  majorDimension?: 'ROWS' | 'COLUMNS';
+  /** FORMATTED_VALUE (default) as displayed, UNFORMATTED_VALUE as raw numbers, FORMULA as entered */
+  valueRenderOption?: 'FORMATTED_VALUE' | 'UNFORMATTED_VALUE' | 'FORMULA';
+  /** How dates are read when values are unformatted (default: SERIAL_NUMBER) */
+  dateTimeRenderOption?: 'SERIAL_NUMBER' | 'FORMATTED_STRING';
+}
+
+/**
+ * Values of a range
+ */
+export interface ValueRange {
+  /** The range in A1 notation, as normalized by Google (e.g., "Sheet1!A1:B10") */
+  range: string;
+  majorDimension: 'ROWS' | 'COLUMNS';
+  /** Trailing empty rows and cells are omitted */
+  values: unknown[][];
+}
+
+/**
+ * Result of writing values to a range
+ */
+export interface UpdateValuesResult {
+  spreadsheetId: string;
+  updatedRange: string;
+  updatedRows?: number;
+  updatedColumns?: number;
+  updatedCells?: number;
+}
+
+/**
+ * Result of appending values, `updates` tells where the rows were written
+ */
+export interface AppendValuesResult {
+  spreadsheetId: string;
+  /** The table the values were appended to */
+  tableRange?: string;
+  updates: UpdateValuesResult;
+}
+
+/**
+ * Result of writing values to several ranges
+ */
+export interface BatchUpdateValuesResult {
+  spreadsheetId: string;
+  totalUpdatedRows?: number;
+  totalUpdatedColumns?: number;
+  totalUpdatedCells?: number;
+  totalUpdatedSheets?: number;
+  responses?: UpdateValuesResult[];
+}
+
+/**
+ * Result of clearing values
+ */
+export interface ClearValuesResult {
+  spreadsheetId: string;
+  clearedRange?: string;
+  clearedRanges?: string[];
+}
 
 /**
  * Google Sheets integration class
@@ -19,24 +110,24 @@ export class GoogleSheetsIntegration extends Integration<OAuth2Credentials> {
   /**
    * Write values to a single range in a Google Sheet
    * @param spreadsheetId - The ID of the spreadsheet
-   * @param range - A1 notation range (e.g., 'Sheet1!A1:D5')
+   * @param range - A1 notation range (e.g., 'Sheet1!A1:D5') or structured range
    * @param values - 2D array of values to write
    * @param valueInputOption - How the input data should be interpreted ('RAW' or 'USER_ENTERED')
    * @param majorDimension - Whether values are organized by ROWS or COLUMNS
    */
   public async writeRange(
     spreadsheetId: string,
-    range: string,
+    range: RangeInput,
     values: any[][],
     valueInputOption: 'RAW' | 'USER_ENTERED' = 'USER_ENTERED',
     majorDimension: 'ROWS' | 'COLUMNS' = 'ROWS'
   ) {
-    const response = await this.proxyRequest({
+    const response = await this.proxyRequest<UpdateValuesResult>({
       baseUrlOverride: 'https://sheets.googleapis.com/',
       method: 'PUT',
-      endpoint: `/v4/spreadsheets/${spreadsheetId}/values/${range}?valueInputOption=${valueInputOption}`,
+      endpoint: `/v4/spreadsheets/${encodeURIComponent(spreadsheetId)}/values/${encodeRange(range)}?valueInputOption=${valueInputOption}`,
       data: {
-        range,
+        range: toA1(range),
         majorDimension,
         values
       }
@@ -52,24 +143,24 @@ export class GoogleSheetsIntegration extends Integration<OAuth2Credentials> {
   /**
    * Write values selectively to a range (allows null values to skip cells)
    * @param spreadsheetId - The ID of the spreadsheet
-   * @param range - A1 notation range (e.g., 'Sheet1!B1')
+   * @param range - A1 notation range (e.g., 'Sheet1!B1') or structured range
    * @param values - 2D array of values to write (use null to skip cells, "" to clear)
    * @param valueInputOption - How the input data should be interpreted
    * @param majorDimension - Whether values are organized by ROWS or COLUMNS
    */
   public async writeSelectively(
     spreadsheetId: string,
-    range: string,
+    range: RangeInput,
     values: (any | null)[][],
     valueInputOption: 'RAW' | 'USER_ENTERED' = 'USER_ENTERED',
     majorDimension: 'ROWS' | 'COLUMNS' = 'COLUMNS'
   ) {
-    const response = await this.proxyRequest({
+    const response = await this.proxyRequest<UpdateValuesResult>({
       baseUrlOverride: 'https://sheets.googleapis.com/',
       method: 'PUT',
-      endpoint: `/v4/spreadsheets/${spreadsheetId}/values/${range}?valueInputOption=${valueInputOption}`,
+      endpoint: `/v4/spreadsheets/${encodeURIComponent(spreadsheetId)}/values/${encodeRange(range)}?valueInputOption=${valueInputOption}`,
       data: {
-        range,
+        range: toA1(range),
         majorDimension,
         values
       }
@@ -91,19 +182,19 @@ export class GoogleSheetsIntegration extends Integration<OAuth2Credentials> {
   public async batchUpdate(
     spreadsheetId: string,
     data: Array<{
-      range: string;
+      range: RangeInput;
       majorDimension: 'ROWS' | 'COLUMNS';
       values: any[][];
     }>,
     valueInputOption: 'RAW' | 'USER_ENTERED' = 'USER_ENTERED'
   ) {
-    const response = await this.proxyRequest({
+    const response = await this.proxyRequest<BatchUpdateValuesResult>({
       baseUrlOverride: 'https://sheets.googleapis.com/',
       method: 'POST',
-      endpoint: `/v4/spreadsheets/${spreadsheetId}/values:batchUpdate`,
+      endpoint: `/v4/spreadsheets/${encodeURIComponent(spreadsheetId)}/values:batchUpdate`,
       data: {
         valueInputOption,
-        data
+        data: data.map(entry => ({ ...entry, range: toA1(entry.range) }))
       }
     });
 
@@ -117,24 +208,24 @@ export class GoogleSheetsIntegration extends Integration<OAuth2Credentials> {
   /**
    * Append values to a sheet (adds new rows)
    * @param spreadsheetId - The ID of the spreadsheet
-   * @param range - A1 notation range indicating where to append
+   * @param range - A1 notation or structured range indicating where to append
    * @param values - 2D array of values to append
    * @param valueInputOption - How the input data should be interpreted
    * @param majorDimension - Whether values are organized by ROWS or COLUMNS
    */
   public async appendValues(
     spreadsheetId: string,
-    range: string,
+    range: RangeInput,
     values: any[][],
     valueInputOption: 'RAW' | 'USER_ENTERED' = 'USER_ENTERED',
     majorDimension: 'ROWS' | 'COLUMNS' = 'ROWS'
   ) {
-    const response = await this.proxyRequest({
+    const response = await this.proxyRequest<AppendValuesResult>({
       baseUrlOverride: 'https://sheets.googleapis.com/',
       method: 'POST',
-      endpoint: `/v4/spreadsheets/${spreadsheetId}/values/${range}:append?valueInputOption=${valueInputOption}`,
+      endpoint: `/v4/spreadsheets/${encodeURIComponent(spreadsheetId)}/values/${encodeRange(range)}:append?valueInputOption=${valueInputOption}`,
       data: {
-        range,
+        range: toA1(range),
         majorDimension,
         values
       }
@@ -150,18 +241,18 @@ export class GoogleSheetsIntegration extends Integration<OAuth2Credentials> {
   /**
    * Read values from a range in a Google Sheet
    * @param spreadsheetId - The ID of the spreadsheet
-   * @param range - A1 notation range to read from
+   * @param range - A1 notation or structured range to read from
    * @param majorDimension - Whether values should be organized by ROWS or COLUMNS
    */
   public async readRange(
     spreadsheetId: string,
-    range: string,
+    range: RangeInput,
     majorDimension: 'ROWS' | 'COLUMNS' = 'ROWS'
   ) {
-    const response = await this.proxyRequest({
+    const response = await this.proxyRequest<Partial<ValueRange>>({
       baseUrlOverride: 'https://sheets.googleapis.com/',
       method: 'GET',
-      endpoint: `/v4/spreadsheets/${spreadsheetId}/values/${range}?majorDimension=${majorDimension}`,
+      endpoint: `/v4/spreadsheets/${encodeURIComponent(spreadsheetId)}/values/${encodeRange(range)}?majorDimension=${majorDimension}`,
     });
 
     return {
@@ -170,4 +261,779 @@ export class GoogleSheetsIntegration extends Integration<OAuth2Credentials> {
       message: 'Range read successfully'
     };
   }
-} 
\ No newline at end of file
+
+  /**
+   * Read several ranges in a single request
+   * @param spreadsheetId - The ID of the spreadsheet
+   * @param ranges - A1 notation or structured ranges
+   * @param options - Major dimension, value and date rendering
+   */
+  public async batchGet(
+    spreadsheetId: string,
+    ranges: RangeInput[],
+    options: ReadValuesOptions = {}
+  ): Promise<IntegrationResponse<ValueRange[]>> {
+    const params = new URLSearchParams();
+    for (const range of ranges) {
+      params.append('ranges', toA1(range));
+    }
+    params.set('majorDimension', options.majorDimension ?? 'ROWS');
+    if (options.valueRenderOption) params.set('valueRenderOption', options.valueRenderOption);
+    if (options.dateTimeRenderOption) params.set('dateTimeRenderOption', options.dateTimeRenderOption);
+
+    const response = await this.proxyRequest<{ valueRanges?: Array<Partial<ValueRange>> }>({
+      baseUrlOverride: 'https://sheets.googleapis.com/',
+      method: 'GET',
+      endpoint: `/v4/spreadsheets/${encodeURIComponent(spreadsheetId)}/values:batchGet?${params.toString().replace(/\+/g, '%20')}`,
+    });
+
+    const valueRanges: Array<Partial<ValueRange>> = response.data.valueRanges || [];
+    return {
+      success: true,
+      data: valueRanges.map(valueRange => ({
+        range: valueRange.range || '',
+        majorDimension: valueRange.majorDimension || options.majorDimension || 'ROWS',
+        values: valueRange.values || []
+      })),
+      message: 'Ranges read successfully'
+    };
+  }
+
+  /**
+   * Clear the values of a range, formatting is kept
+   * @param spreadsheetId - The ID of the spreadsheet
+   * @param range - A1 notation or structured range
+   */
+  public async clearRange(spreadsheetId: string, range: RangeInput) {
+    const response = await this.proxyRequest<ClearValuesResult>({
+      baseUrlOverride: 'https://sheets.googleapis.com/',
+      method: 'POST',
+      endpoint: `/v4/spreadsheets/${encodeURIComponent(spreadsheetId)}/values/${encodeRange(range)}:clear`,
+      data: {}
+    });
+
+    return {
+      success: true,
+      data: response.data,
+      message: 'Range cleared successfully'
+    };
+  }
+
+  /**
+   * Clear the values of several ranges in a single request, formatting is kept
+   * @param spreadsheetId - The ID of the spreadsheet
+   * @param ranges - A1 notation or structured ranges
+   */
+  public async batchClear(spreadsheetId: string, ranges: RangeInput[]) {
+    const response = await this.proxyRequest<ClearValuesResult>({
+      baseUrlOverride: 'https://sheets.googleapis.com/',
+      method: 'POST',
+      endpoint: `/v4/spreadsheets/${encodeURIComponent(spreadsheetId)}/values:batchClear`,
+      data: {
+        ranges: ranges.map(range => toA1(range))
+      }
+    });
+
+    return {
+      success: true,
+      data: response.data,
+      message: 'Ranges cleared successfully'
+    };
+  }
+
+  /**
+   * Stream the values of a range to a file or any writable stream, as CSV or JSON lines
+   * Rows are read in chunks, so large ranges are never held in memory at once.
+   * In JSON lines format the first row holds the keys of the following rows.
+   * Empty rows between data rows are kept, the trailing ones are left out.
+   * @param spreadsheetId - The ID of the spreadsheet
+   * @param range - A1 notation or structured range (e.g., 'Orders' for a whole sheet)
+   * @param destination - Stream receiving the output, ended when done unless `end` is false
+   * @param options - Format, delimiter, value rendering, chunk size and progress callback
+   */
+  public async exportRange(
+    spreadsheetId: string,
+    range: RangeInput,
+    destination: Writable,
+    options: ExportRangeOptions
+  ): Promise<IntegrationResponse<TransferProgress>> {
+    const parsed = toA1Range(range);
+    const hasEnd = parsed.endRow !== undefined || parsed.endColumn !== undefined;
+    const startColumn = parsed.startColumn ?? 1;
+    const endColumn = hasEnd ? parsed.endColumn : parsed.startColumn;
+    const chunkRows = options.chunkRows ?? 5000;
+    const progress: TransferProgress = { rows: 0, requests: 0 };
+
+    // Sheets omits trailing empty rows, so a short chunk is not the end of the data: read up to the last row of the sheet
+    let lastRow = hasEnd ? parsed.endRow : parsed.startRow;
+    if (lastRow === undefined) {
+      const properties = await this.getSheetProperties(spreadsheetId, parsed.sheet);
+      progress.requests++;
+      lastRow = properties.gridProperties?.rowCount;
+    }
+
+    // CSV rows are padded to the width of the range, or of the first row when columns are open-ended
+    let width = endColumn !== undefined ? endColumn - startColumn + 1 : undefined;
+    let headers: string[] | undefined;
+    const formatRow = (cells: unknown[]) => {
+      if (options.format === 'csv') {
+        width = width ?? cells.length;
+        // Sheets omits trailing empty cells
+        return formatCsvRow(cells.length < width ? [...cells, ...new Array(width - cells.length).fill('')] : cells, options.delimiter);
+      }
+      if (!headers) {
+        headers = cells.map(cell => String(cell ?? ''));
+        return '';
+      }
+      const record: Record<string, unknown> = {};
+      headers.forEach((header, index) => {
+        record[header] = cells[index] ?? null;
+      });
+      return JSON.stringify(record) + '\n';
+    };
+
+    // Empty rows ending the previous chunks, written once data follows them
+    let blankRows = 0;
+    let row = parsed.startRow ?? 1;
+    while (lastRow === undefined || row <= lastRow) {
+      const chunkEnd = lastRow === undefined ? row + chunkRows - 1 : Math.min(row + chunkRows - 1, lastRow);
+      const response = await this.batchGet(spreadsheetId, [{
+        sheet: parsed.sheet,
+        startColumn,
+        startRow: row,
+        endColumn: endColumn ?? MAX_COLUMN,
+        endRow: chunkEnd
+      }], { valueRenderOption: options.valueRenderOption });
+      const values = response.data[0]?.values || [];
+
+      let output = '';
+      if (values.length > 0) {
+        const rows = [...new Array<unknown[]>(blankRows).fill([]), ...values];
+        for (const cells of rows) {
+          output += formatRow(cells);
+        }
+        progress.rows += rows.length;
+        blankRows = 0;
+      }
+      blankRows += chunkEnd - row + 1 - values.length;
+      if (output && !destination.write(output)) {
+        await once(destination, 'drain');
+      }
+
+      progress.requests++;
+      options.onProgress?.({ ...progress });
+
+      // Without the size of the sheet, an empty chunk is taken as the end of the data
+      if (lastRow === undefined && values.length === 0) {
+        break;
+      }
+      row = chunkEnd + 1;
+    }
+
+    if (options.end !== false) {
+      destination.end();
+    }
+
+    return {
+      success: true,
+      data: progress,
+      message: 'Range exported successfully'
+    };
+  }
+
+  /**
+   * Import CSV data from a file or any readable stream
+   * Rows are parsed as they arrive and written in chunks bounded by row count and payload size.
+   * @param spreadsheetId - The ID of the spreadsheet
+   * @param sheet - Name of the sheet
+   * @param source - Readable stream (e.g., fs.createReadStream) or async iterable of text or bytes
+   * @param options - Delimiter, append or overwrite, chunk sizes and progress callback
+   * @throws ValidationError if the CSV is malformed
+   */
+  public async importCsv(
+    spreadsheetId: string,
+    sheet: string,
+    source: AsyncIterable<string | Buffer>,
+    options: ImportCsvOptions = {}
+  ): Promise<IntegrationResponse<TransferProgress>> {
+    const chunkRows = options.chunkRows ?? 5000;
+    const chunkBytes = options.chunkBytes ?? 1024 * 1024;
+    const valueInputOption = options.valueInputOption ?? 'USER_ENTERED';
+    const progress: TransferProgress = { rows: 0, requests: 0 };
+
+    let nextRow = options.startRow ?? 1;
+    let batch: string[][] = [];
+    let bytes = 0;
+
+    const flush = async () => {
+      if (options.mode === 'overwrite') {
+        await this.batchUpdate(spreadsheetId, [{
+          range: { sheet, startColumn: 1, startRow: nextRow },
+          majorDimension: 'ROWS',
+          values: batch
+        }], valueInputOption);
+      } else {
+        await this.appendValues(spreadsheetId, { sheet, startColumn: 1, startRow: 1 }, batch, valueInputOption);
+      }
+
+      nextRow += batch.length;
+      progress.rows += batch.length;
+      progress.requests++;
+      options.onProgress?.({ ...progress });
+      batch = [];
+      bytes = 0;
+    };
+
+    for await (const row of parseCsv(source, options.delimiter)) {
+      batch.push(row);
+      // Rough JSON size: quotes and separators around each field
+      bytes += row.reduce((size, field) => size + Buffer.byteLength(field) + 3, 2);
+      if (batch.length >= chunkRows || bytes >= chunkBytes) {
+        await flush();
+      }
+    }
+    if (batch.length > 0) {
+      await flush();
+    }
+
+    return {
+      success: true,
+      data: progress,
+      message: 'CSV imported successfully'
+    };
+  }
+
+  /**
+   * Read the rows of a sheet as records keyed by the header row
+   * Cells are read unformatted, so numbers stay numbers and dates are serial numbers until coerced by the schema.
+   * Rows with cells that do not match the schema are reported in `errors` and left out of `records`.
+   * @param spreadsheetId - The ID of the spreadsheet
+   * @param sheet - Name of the sheet (e.g., 'Contacts')
+   * @param options - Column schema and header row
+   */
+  public async readRecords<T extends object = Record<string, unknown>>(
+    spreadsheetId: string,
+    sheet: string,
+    options: RecordOptions<T> = {}
+  ): Promise<IntegrationResponse<ReadRecordsResult<T>>> {
+    const headerRow = options.headerRow ?? 1;
+    const { headers, rows } = await this.readSheet(spreadsheetId, sheet, headerRow);
+
+    return {
+      success: true,
+      data: parseRecords(headers, rows, headerRow + 1, options.schema),
+      message: 'Records read successfully'
+    };
+  }
+
+  /**
+   * Append records as new rows, placing each value under the column with the same header
+   * @param spreadsheetId - The ID of the spreadsheet
+   * @param sheet - Name of the sheet
+   * @param records - Records to append, keys must match header names
+   * @param options - Header row
+   * @throws ValidationError if a record has a key that matches no header
+   */
+  public async appendRecords<T extends object = Record<string, unknown>>(
+    spreadsheetId: string,
+    sheet: string,
+    records: T[],
+    options: Pick<RecordOptions<T>, 'headerRow'> = {}
+  ) {
+    const headerRow = options.headerRow ?? 1;
+    const headers = await this.getHeaders(spreadsheetId, sheet, headerRow);
+    const values = records.map(record => this.toRecordRow(record, headers, ''));
+    const range = formatA1({ sheet, startColumn: 1, startRow: headerRow });
+
+    const response = await this.proxyRequest<AppendValuesResult>({
+      baseUrlOverride: 'https://sheets.googleapis.com/',
+      method: 'POST',
+      endpoint: `/v4/spreadsheets/${encodeURIComponent(spreadsheetId)}/values/${encodeRange(range)}:append?valueInputOption=USER_ENTERED&insertDataOption=INSERT_ROWS`,
+      data: {
+        range,
+        majorDimension: 'ROWS',
+        values
+      }
+    });
+
+    return {
+      success: true,
+      data: response.data,
+      message: 'Records appended successfully'
+    };
+  }
+
+  /**
+   * Update some columns of a record, the other cells of the row are left unchanged
+   * @param spreadsheetId - The ID of the spreadsheet
+   * @param sheet - Name of the sheet
+   * @param rowNumber - Row of the record, as returned by readRecords
+   * @param values - Values to write, keys must match header names
+   * @param options - Header row
+   * @throws ValidationError if the row is not below the header row or a key matches no header
+   */
+  public async updateRecord<T extends object = Record<string, unknown>>(
+    spreadsheetId: string,
+    sheet: string,
+    rowNumber: number,
+    values: Partial<T>,
+    options: Pick<RecordOptions<T>, 'headerRow'> = {}
+  ) {
+    const headerRow = options.headerRow ?? 1;
+    if (!Number.isInteger(rowNumber) || rowNumber <= headerRow) {
+      throw new ValidationError(`Invalid record row ${rowNumber}, records start at row ${headerRow + 1}`, { integration: this.name });
+    }
+
+    const headers = await this.getHeaders(spreadsheetId, sheet, headerRow);
+    const range = formatA1({ sheet, startColumn: 1, startRow: rowNumber, endColumn: headers.length, endRow: rowNumber });
+
+    const response = await this.proxyRequest<UpdateValuesResult>({
+      baseUrlOverride: 'https://sheets.googleapis.com/',
+      method: 'PUT',
+      endpoint: `/v4/spreadsheets/${encodeURIComponent(spreadsheetId)}/values/${encodeRange(range)}?valueInputOption=USER_ENTERED`,
+      data: {
+        range,
+        majorDimension: 'ROWS',
+        // null cells are skipped by the API
+        values: [this.toRecordRow(values, headers, null)]
+      }
+    });
+
+    return {
+      success: true,
+      data: response.data,
+      message: 'Record updated successfully'
+    };
+  }
+
+  /**
+   * Insert or update records by key column, writing only the cells that changed
+   * Changes are applied with one batchUpdate for existing rows and one appendValues for new rows.
+   * Columns missing from a record are left unchanged in existing rows.
+   * @param spreadsheetId - The ID of the spreadsheet
+   * @param sheet - Name of the sheet
+   * @param keyColumn - Header of the column identifying rows (e.g., 'Email')
+   * @param records - Records to upsert, keys must match header names
+   * @param options - Delete rows missing from the input, header row, column types used to compare cells
+   * @throws ValidationError if the key column is missing, or a record has no key or a duplicate key
+   */
+  public async upsertRows<T extends object = Record<string, unknown>>(
+    spreadsheetId: string,
+    sheet: string,
+    keyColumn: string,
+    records: T[],
+    options: UpsertOptions<T> = {}
+  ): Promise<IntegrationResponse<UpsertResult>> {
+    const headerRow = options.headerRow ?? 1;
+    const { headers, rows } = await this.readSheet(spreadsheetId, sheet, headerRow);
+    if (headers.length === 0) {
+      throw new ValidationError(`Sheet ${sheet} has no header row at row ${headerRow}`, { integration: this.name });
+    }
+
+    let plan: UpsertPlan;
+    try {
+      plan = planUpsert(headers, rows, headerRow + 1, keyColumn, records, options.deleteMissing, options.schema);
+    } catch (error) {
+      throw new ValidationError((error as Error).message, { integration: this.name, cause: error });
+    }
+
+    if (plan.updates.length > 0) {
+      await this.batchUpdate(spreadsheetId, plan.updates.map(run => ({
+        range: { sheet, startColumn: run.column, startRow: run.rowNumber, endColumn: run.column + run.values.length - 1, endRow: run.rowNumber },
+        majorDimension: 'ROWS' as const,
+        values: [run.values]
+      })));
+    }
+
+    // Deleted before appending so new rows don't land after a gap
+    if (plan.deletions.length > 0) {
+      await this.deleteRows(spreadsheetId, sheet, plan.deletions);
+    }
+
+    if (plan.inserts.length > 0) {
+      await this.appendValues(spreadsheetId, { sheet, startColumn: 1, startRow: headerRow }, plan.inserts);
+    }
+
+    return {
+      success: true,
+      data: plan.result,
+      message: 'Rows upserted successfully'
+    };
+  }
+
+  /**
+   * Read the header and the rows below it, unformatted
+   */
+  private async readSheet(spreadsheetId: string, sheet: string, headerRow: number): Promise<{ headers: string[]; rows: unknown[][] }> {
+    const range = formatA1({ sheet, startColumn: 1, startRow: headerRow, endColumn: MAX_COLUMN });
+
+    const response = await this.proxyRequest<{ values?: unknown[][] }>({
+      baseUrlOverride: 'https://sheets.googleapis.com/',
+      method: 'GET',
+      endpoint: `/v4/spreadsheets/${encodeURIComponent(spreadsheetId)}/values/${encodeRange(range)}?valueRenderOption=UNFORMATTED_VALUE&dateTimeRenderOption=SERIAL_NUMBER`,
+    });
+
+    const [headerValues = [], ...rows]: unknown[][] = response.data.values || [];
+    return { headers: headerValues.map(value => String(value ?? '').trim()), rows };
+  }
+
+  /**
+   * Delete rows of a sheet
+   * @param rowNumbers - 1-based row numbers, in descending order so earlier deletions don't shift later ones
+   */
+  private async deleteRows(spreadsheetId: string, sheet: string, rowNumbers: number[]) {
+    const sheetId = await this.getSheetId(spreadsheetId, sheet);
+
+    return this.batchUpdateSpreadsheet(spreadsheetId, rowNumbers.map(rowNumber => ({
+      deleteDimension: {
+        range: { sheetId, dimension: 'ROWS', startIndex: rowNumber - 1, endIndex: rowNumber }
+      }
+    })));
+  }
+
+  /**
+   * Create a spreadsheet
+   * @param title - Title of the spreadsheet
+   * @param options - Sheets to create, locale and time zone
+   */
+  public async createSpreadsheet(title: string, options: CreateSpreadsheetOptions = {}) {
+    const response = await this.proxyRequest<Spreadsheet>({
+      baseUrlOverride: 'https://sheets.googleapis.com/',
+      method: 'POST',
+      endpoint: '/v4/spreadsheets',
+      data: {
+        properties: { title, locale: options.locale, timeZone: options.timeZone },
+        sheets: options.sheets?.map(sheet => ({ properties: { title: sheet } }))
+      }
+    });
+
+    return {
+      success: true,
+      data: response.data,
+      message: 'Spreadsheet created successfully'
+    };
+  }
+
+  /**
+   * Get a spreadsheet's properties and sheets
+   * @param spreadsheetId - The ID of the spreadsheet
+   * @param fields - Field mask limiting the response (e.g., 'properties.title,sheets.properties')
+   */
+  public async getSpreadsheet(spreadsheetId: string, fields?: string) {
+    const response = await this.proxyRequest<Spreadsheet>({
+      baseUrlOverride: 'https://sheets.googleapis.com/',
+      method: 'GET',
+      endpoint: `/v4/spreadsheets/${encodeURIComponent(spreadsheetId)}${fields ? `?fields=${encodeURIComponent(fields)}` : ''}`,
+    });
+
+    return {
+      success: true,
+      data: response.data,
+      message: 'Spreadsheet retrieved successfully'
+    };
+  }
+
+  /**
+   * List the sheets (tabs) of a spreadsheet with their grid properties
+   * @param spreadsheetId - The ID of the spreadsheet
+   */
+  public async listSheets(spreadsheetId: string): Promise<IntegrationResponse<SheetProperties[]>> {
+    const response = await this.getSpreadsheet(spreadsheetId, 'sheets.properties');
+
+    return {
+      success: true,
+      data: (response.data?.sheets || []).map(sheet => sheet.properties),
+      message: 'Sheets retrieved successfully'
+    };
+  }
+
+  /**
+   * Add a sheet (tab)
+   * @param spreadsheetId - The ID of the spreadsheet
+   * @param title - Title of the new sheet
+   * @param options - Position and size
+   */
+  public async addSheet(spreadsheetId: string, title: string, options: AddSheetOptions = {}): Promise<IntegrationResponse<SheetProperties>> {
+    const gridProperties = options.rowCount !== undefined || options.columnCount !== undefined
+      ? { rowCount: options.rowCount, columnCount: options.columnCount }
+      : undefined;
+
+    const response = await this.batchUpdateSpreadsheet(spreadsheetId, [{
+      addSheet: { properties: { title, index: options.index, gridProperties } }
+    }]);
+
+    return {
+      success: true,
+      data: this.firstReply(response.data, 'addSheet').properties,
+      message: 'Sheet added successfully'
+    };
+  }
+
+  /**
+   * Rename a sheet
+   * @param spreadsheetId - The ID of the spreadsheet
+   * @param sheet - Title or ID of the sheet
+   * @param title - New title
+   */
+  public async renameSheet(spreadsheetId: string, sheet: SheetRef, title: string) {
+    const sheetId = await this.getSheetId(spreadsheetId, sheet);
+    const response = await this.batchUpdateSpreadsheet(spreadsheetId, [{
+      updateSheetProperties: { properties: { sheetId, title }, fields: 'title' }
+    }]);
+
+    return {
+      success: true,
+      data: response.data,
+      message: 'Sheet renamed successfully'
+    };
+  }
+
+  /**
+   * Duplicate a sheet with its values and formatting
+   * @param spreadsheetId - The ID of the spreadsheet
+   * @param sheet - Title or ID of the sheet to copy
+   * @param title - Title of the copy (default: chosen by Google, e.g. "Copy of Sheet1")
+   * @param index - Position of the copy (default: after the original)
+   */
+  public async duplicateSheet(
+    spreadsheetId: string,
+    sheet: SheetRef,
+    title?: string,
+    index?: number
+  ): Promise<IntegrationResponse<SheetProperties>> {
+    const sheetId = await this.getSheetId(spreadsheetId, sheet);
+    const response = await this.batchUpdateSpreadsheet(spreadsheetId, [{
+      duplicateSheet: { sourceSheetId: sheetId, newSheetName: title, insertSheetIndex: index }
+    }]);
+
+    return {
+      success: true,
+      data: this.firstReply(response.data, 'duplicateSheet').properties,
+      message: 'Sheet duplicated successfully'
+    };
+  }
+
+  /**
+   * Delete a sheet
+   * @param spreadsheetId - The ID of the spreadsheet
+   * @param sheet - Title or ID of the sheet
+   */
+  public async deleteSheet(spreadsheetId: string, sheet: SheetRef) {
+    const sheetId = await this.getSheetId(spreadsheetId, sheet);
+    const response = await this.batchUpdateSpreadsheet(spreadsheetId, [{ deleteSheet: { sheetId } }]);
+
+    return {
+      success: true,
+      data: response.data,
+      message: 'Sheet deleted successfully'
+    };
+  }
+
+  /**
+   * Freeze the first rows and columns of a sheet (0 unfreezes)
+   * @param spreadsheetId - The ID of the spreadsheet
+   * @param sheet - Title or ID of the sheet
+   * @param rows - Number of frozen rows
+   * @param columns - Number of frozen columns (default: 0)
+   */
+  public async freeze(spreadsheetId: string, sheet: SheetRef, rows: number, columns: number = 0) {
+    const sheetId = await this.getSheetId(spreadsheetId, sheet);
+    const response = await this.batchUpdateSpreadsheet(spreadsheetId, [{
+      updateSheetProperties: {
+        properties: { sheetId, gridProperties: { frozenRowCount: rows, frozenColumnCount: columns } },
+        fields: 'gridProperties.frozenRowCount,gridProperties.frozenColumnCount'
+      }
+    }]);
+
+    return {
+      success: true,
+      data: response.data,
+      message: 'Sheet frozen successfully'
+    };
+  }
+
+  /**
+   * Resize columns to fit their content
+   * @param spreadsheetId - The ID of the spreadsheet
+   * @param sheet - Title or ID of the sheet
+   * @param startColumn - First column, 1-based (default: 1)
+   * @param endColumn - Last column, inclusive (default: last column of the sheet)
+   */
+  public async autoResizeColumns(spreadsheetId: string, sheet: SheetRef, startColumn: number = 1, endColumn?: number) {
+    const sheetId = await this.getSheetId(spreadsheetId, sheet);
+    const response = await this.batchUpdateSpreadsheet(spreadsheetId, [{
+      autoResizeDimensions: {
+        dimensions: { sheetId, dimension: 'COLUMNS', startIndex: startColumn - 1, endIndex: endColumn }
+      }
+    }]);
+
+    return {
+      success: true,
+      data: response.data,
+      message: 'Columns resized successfully'
+    };
+  }
+
+  /**
+   * Format a range: text style, colors, alignment and number format
+   * Only the given properties change, the rest of the formatting is kept
+   * @param spreadsheetId - The ID of the spreadsheet
+   * @param range - A1 notation or structured range (e.g., 'Report!1:1' for a header row)
+   * @param format - Formatting to apply
+   */
+  public async formatRange(spreadsheetId: string, range: RangeInput, format: CellFormatOptions) {
+    const gridRange = await this.getGridRange(spreadsheetId, range);
+    const response = await this.batchUpdateSpreadsheet(spreadsheetId, [formatRequest(gridRange, format)]);
+
+    return {
+      success: true,
+      data: response.data,
+      message: 'Range formatted successfully'
+    };
+  }
+
+  /**
+   * Color the cells of a range that match a condition
+   * @param spreadsheetId - The ID of the spreadsheet
+   * @param range - A1 notation or structured range
+   * @param rule - Condition and colors
+   */
+  public async addConditionalColor(spreadsheetId: string, range: RangeInput, rule: ConditionalColorRule) {
+    const gridRange = await this.getGridRange(spreadsheetId, range);
+    const response = await this.batchUpdateSpreadsheet(spreadsheetId, [conditionalColorRequest(gridRange, rule)]);
+
+    return {
+      success: true,
+      data: response.data,
+      message: 'Conditional format added successfully'
+    };
+  }
+
+  /**
+   * Protect a range from edits
+   * @param spreadsheetId - The ID of the spreadsheet
+   * @param range - A1 notation or structured range, a sheet name protects the whole sheet
+   * @param options - Description, warning-only mode and allowed editors
+   */
+  public async protectRange(
+    spreadsheetId: string,
+    range: RangeInput,
+    options: ProtectRangeOptions = {}
+  ): Promise<IntegrationResponse<ProtectedRange>> {
+    const gridRange = await this.getGridRange(spreadsheetId, range);
+    const response = await this.batchUpdateSpreadsheet(spreadsheetId, [{
+      addProtectedRange: {
+        protectedRange: {
+          range: gridRange,
+          description: options.description,
+          warningOnly: options.warningOnly ?? false,
+          editors: options.editors ? { users: options.editors } : undefined
+        }
+      }
+    }]);
+
+    return {
+      success: true,
+      data: this.firstReply(response.data, 'addProtectedRange').protectedRange,
+      message: 'Range protected successfully'
+    };
+  }
+
+  /**
+   * Apply structural requests (spreadsheets:batchUpdate) in a single call
+   * @param spreadsheetId - The ID of the spreadsheet
+   * @param requests - Raw Sheets API requests
+   * @see https://developers.google.com/sheets/api/reference/rest/v4/spreadsheets/request
+   */
+  public async batchUpdateSpreadsheet(spreadsheetId: string, requests: object[]): Promise<IntegrationResponse<BatchUpdateResponse>> {
+    const response = await this.proxyRequest<Partial<BatchUpdateResponse>>({
+      baseUrlOverride: 'https://sheets.googleapis.com/',
+      method: 'POST',
+      endpoint: `/v4/spreadsheets/${encodeURIComponent(spreadsheetId)}:batchUpdate`,
+      data: { requests }
+    });
+
+    return {
+      success: true,
+      data: { spreadsheetId, ...response.data, replies: response.data?.replies || [] },
+      message: 'Spreadsheet updated successfully'
+    };
+  }
+
+  /**
+   * Get the reply to the first request of a batch update
+   * @throws ProviderError if the reply is missing
+   */
+  private firstReply<K extends 'addSheet' | 'duplicateSheet' | 'addProtectedRange'>(
+    response: BatchUpdateResponse,
+    request: K
+  ): NonNullable<BatchUpdateReply[K]> {
+    const reply = response.replies[0]?.[request];
+    if (!reply) {
+      throw new ProviderError(`Google Sheets returned no ${request} reply`, { integration: this.name });
+    }
+    return reply as NonNullable<BatchUpdateReply[K]>;
+  }
+
+  /**
+   * Get the properties of a sheet, or of the first sheet when no title is given
+   * @throws NotFoundError if no sheet has this title
+   */
+  private async getSheetProperties(spreadsheetId: string, sheet?: string): Promise<SheetProperties> {
+    const sheets = await this.listSheets(spreadsheetId);
+    const properties = sheet === undefined ? sheets.data[0] : sheets.data.find(entry => entry.title === sheet);
+    if (!properties) {
+      throw new NotFoundError(`Sheet not found: ${sheet ?? '(first sheet)'}`, { integration: this.name, status: 404 });
+    }
+    return properties;
+  }
+
+  /**
+   * Resolve a sheet title to its ID, IDs are returned unchanged
+   * @throws NotFoundError if no sheet has this title
+   */
+  private async getSheetId(spreadsheetId: string, sheet: SheetRef): Promise<number> {
+    if (typeof sheet === 'number') {
+      return sheet;
+    }
+
+    return (await this.getSheetProperties(spreadsheetId, sheet)).sheetId ?? 0;
+  }
+
+  /**
+   * Convert a range to a GridRange, ranges without a sheet refer to the first sheet
+   */
+  private async getGridRange(spreadsheetId: string, range: RangeInput): Promise<GridRange> {
+    const parsed = toA1Range(range);
+    if (parsed.sheet !== undefined) {
+      return toGridRange(parsed, await this.getSheetId(spreadsheetId, parsed.sheet));
+    }
+
+    const sheets = await this.listSheets(spreadsheetId);
+    return toGridRange(parsed, sheets.data[0]?.sheetId ?? 0);
+  }
+
+  private async getHeaders(spreadsheetId: string, sheet: string, headerRow: number): Promise<string[]> {
+    const range = formatA1({ sheet, startRow: headerRow, endRow: headerRow });
+    const response = await this.proxyRequest<{ values?: unknown[][] }>({
+      baseUrlOverride: 'https://sheets.googleapis.com/',
+      method: 'GET',
+      endpoint: `/v4/spreadsheets/${encodeURIComponent(spreadsheetId)}/values/${encodeRange(range)}`,
+    });
+
+    const headers: string[] = (response.data.values?.[0] || []).map((value: unknown) => String(value ?? '').trim());
+    if (headers.length === 0) {
+      throw new ValidationError(`Sheet ${sheet} has no header row at row ${headerRow}`, { integration: this.name });
+    }
+    return headers;
+  }
+
+  private toRecordRow(record: object, headers: string[], fill: '' | null): unknown[] {
+    try {
+      return toRow(record, headers, fill);
+    } catch (error) {
+      throw new ValidationError((error as Error).message, { integration: this.name, cause: error });
+    }
+  }
+}
+
@@ -1,2 +1,42 @@
 export { GoogleSheetsIntegration } from './google-sheets';
-
+export type {
+  ReadValuesOptions,
+  ValueRange,
+  UpdateValuesResult,
+  AppendValuesResult,
+  BatchUpdateValuesResult,
+  ClearValuesResult
+} from './google-sheets';
+export { coerceValue, fromSerialDate, toSerialDate } from './records';
+export type { ColumnType, RecordSchema, RecordOptions, SheetRecord, RecordError, ReadRecordsResult } from './records';
+export type { UpsertOptions, UpsertResult } from './upsert';
+export { CsvParser, parseCsv, formatCsvRow } from './csv';
+export type { ExportRangeOptions, ImportCsvOptions, TransferProgress } from './csv';
+export {
+  columnToLetter,
+  letterToColumn,
+  quoteSheetName,
+  parseA1,
+  formatA1,
+  toA1,
+  encodeRange,
+  offsetRange,
+  expandRange,
+  intersectRanges
+} from './a1';
+export type { A1Range, RangeInput } from './a1';
+export { toColor, toGridRange } from './structure';
+export type {
+  SheetRef,
+  SheetProperties,
+  Spreadsheet,
+  CreateSpreadsheetOptions,
+  AddSheetOptions,
+  CellFormatOptions,
+  ConditionalColorRule,
+  ProtectRangeOptions,
+  GridRange,
+  ProtectedRange,
+  BatchUpdateReply,
+  BatchUpdateResponse
+} from './structure';
@@ -0,0 +1,180 @@
+/**
+ * Types a column can be coerced to
+ * Dates are read from Sheets serial numbers (days since 1899-12-30) or date strings
+ */
+export type ColumnType = 'string' | 'number' | 'boolean' | 'date';
+
+/**
+ * Column types keyed by header name, columns without a type are passed through as read
+ */
+export type RecordSchema<T extends object = Record<string, unknown>> = { [K in keyof T]?: ColumnType };
+
+/**
+ * Options for reading and writing records
+ */
+export interface RecordOptions<T extends object = Record<string, unknown>> {
+  schema?: RecordSchema<T>;
+  /** Row holding the column names (default: 1) */
+  headerRow?: number;
+}
+
+/**
+ * A record and the sheet row it was read from
+ */
+export interface SheetRecord<T> {
+  /** 1-based row number, pass it to updateRecord */
+  rowNumber: number;
+  values: T;
+}
+
+/**
+ * A cell that could not be coerced to its column type
+ */
+export interface RecordError {
+  rowNumber: number;
+  column: string;
+  value: unknown;
+  message: string;
+}
+
+/**
+ * Records of a sheet, rows with invalid cells are reported in errors instead of records
+ */
+export interface ReadRecordsResult<T> {
+  headers: string[];
+  records: Array<SheetRecord<T>>;
+  errors: RecordError[];
+}
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+// Serial date 0, Sheets (like Lotus 1-2-3) counts days from 1899-12-30
+const SERIAL_EPOCH = Date.UTC(1899, 11, 30);
+
+/**
+ * Convert a Sheets serial date to a Date (serials are read as UTC)
+ */
+export function fromSerialDate(serial: number): Date {
+  return new Date(SERIAL_EPOCH + Math.round(serial * MS_PER_DAY));
+}
+
+/**
+ * Convert a Date to a Sheets serial date (UTC)
+ */
+export function toSerialDate(date: Date): number {
+  return (date.getTime() - SERIAL_EPOCH) / MS_PER_DAY;
+}
+
+/**
+ * Coerce a cell value to a column type
+ * @throws Error with a readable message when the value does not fit the type
+ */
+export function coerceValue(value: unknown, type: ColumnType): unknown {
+  switch (type) {
+    case 'string':
+      return String(value);
+
+    case 'number': {
+      const number = typeof value === 'number' ? value : typeof value === 'string' ? Number(value.trim()) : NaN;
+      if ((typeof value === 'string' && value.trim() === '') || Number.isNaN(number)) {
+        throw new Error(`Expected a number, got ${JSON.stringify(value)}`);
+      }
+      return number;
+    }
+
+    case 'boolean': {
+      if (typeof value === 'boolean') {
+        return value;
+      }
+      const text = String(value).trim().toLowerCase();
+      if (['true', 'yes', '1'].includes(text)) return true;
+      if (['false', 'no', '0'].includes(text)) return false;
+      throw new Error(`Expected a boolean, got ${JSON.stringify(value)}`);
+    }
+
+    case 'date': {
+      const date = typeof value === 'number' ? fromSerialDate(value) : new Date(String(value));
+      if (Number.isNaN(date.getTime())) {
+        throw new Error(`Expected a date, got ${JSON.stringify(value)}`);
+      }
+      return date;
+    }
+  }
+}
+
+/**
+ * Map rows to records by header name, coercing the columns listed in the schema
+ * Empty cells are left out of the records
+ * @param headers - Column names, in sheet order
+ * @param rows - Rows following the header row
+ * @param firstRowNumber - Sheet row number of the first row
+ * @param schema - Column types
+ */
+export function parseRecords<T extends object>(
+  headers: string[],
+  rows: unknown[][],
+  firstRowNumber: number,
+  schema: RecordSchema<T> = {}
+): ReadRecordsResult<T> {
+  const types = schema as Record<string, ColumnType | undefined>;
+  const records: Array<SheetRecord<T>> = [];
+  const errors: RecordError[] = [];
+
+  rows.forEach((row, index) => {
+    const rowNumber = firstRowNumber + index;
+    if (row.every(isEmpty)) {
+      return;
+    }
+
+    const values: Record<string, unknown> = {};
+    let valid = true;
+    headers.forEach((column, columnIndex) => {
+      const value = row[columnIndex];
+      if (!column || isEmpty(value)) {
+        return;
+      }
+
+      const type = types[column];
+      try {
+        values[column] = type ? coerceValue(value, type) : value;
+      } catch (error) {
+        valid = false;
+        errors.push({ rowNumber, column, value, message: (error as Error).message });
+      }
+    });
+
+    if (valid) {
+      records.push({ rowNumber, values: values as T });
+    }
+  });
+
+  return { headers, records, errors };
+}
+
+/**
+ * Convert a record into a row ordered like the headers
+ * Dates are written as UTC date-times so Sheets recognizes them with USER_ENTERED input
+ * @param fill - Value of columns missing from the record: '' clears the cell, null leaves it unchanged
+ * @throws Error naming the record keys that match no header
+ */
+export function toRow(record: object, headers: string[], fill: '' | null = ''): unknown[] {
+  const entries = record as Record<string, unknown>;
+  const unknown = Object.keys(entries).filter(key => entries[key] !== undefined && !headers.includes(key));
+  if (unknown.length > 0) {
+    throw new Error(`Unknown columns: ${unknown.join(', ')}`);
+  }
+
+  return headers.map(column => {
+    const value = entries[column];
+    if (value === undefined) {
+      return fill;
+    }
+    if (value instanceof Date) {
+      return value.toISOString().replace('T', ' ').replace(/(\.000)?Z$/, '');
+    }
+    return value;
+  });
+}
+
+function isEmpty(value: unknown): boolean {
+  return value === undefined || value === null || value === '';
+}
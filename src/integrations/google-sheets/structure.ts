@@ -0,0 +1,260 @@
+import { ValidationError } from '../../errors';
+import { A1Range } from './a1';
+
+/**
+ * A sheet referenced by title or by sheet ID
+ */
+export type SheetRef = string | number;
+
+/**
+ * Properties of a sheet (tab)
+ */
+export interface SheetProperties {
+  sheetId: number;
+  title: string;
+  index: number;
+  sheetType?: string;
+  hidden?: boolean;
+  gridProperties?: {
+    rowCount?: number;
+    columnCount?: number;
+    frozenRowCount?: number;
+    frozenColumnCount?: number;
+  };
+}
+
+/**
+ * A spreadsheet, limited to the fields requested
+ */
+export interface Spreadsheet {
+  spreadsheetId?: string;
+  spreadsheetUrl?: string;
+  properties?: { title?: string; locale?: string; timeZone?: string };
+  sheets?: Array<{ properties: SheetProperties }>;
+}
+
+/**
+ * Options for creating a spreadsheet
+ */
+export interface CreateSpreadsheetOptions {
+  /** Titles of the sheets to create (default: a single "Sheet1") */
+  sheets?: string[];
+  locale?: string;
+  timeZone?: string;
+}
+
+/**
+ * Options for adding a sheet
+ */
+export interface AddSheetOptions {
+  /** Position of the new tab (default: last) */
+  index?: number;
+  rowCount?: number;
+  columnCount?: number;
+}
+
+/**
+ * Formatting applied to a range, colors are hex strings ('#1a73e8')
+ */
+export interface CellFormatOptions {
+  bold?: boolean;
+  italic?: boolean;
+  fontSize?: number;
+  textColor?: string;
+  backgroundColor?: string;
+  horizontalAlignment?: 'LEFT' | 'CENTER' | 'RIGHT';
+  wrap?: boolean;
+  /** e.g. `{ type: 'CURRENCY', pattern: '"$"#,##0.00' }` or `{ type: 'DATE', pattern: 'yyyy-mm-dd' }` */
+  numberFormat?: {
+    type: 'TEXT' | 'NUMBER' | 'PERCENT' | 'CURRENCY' | 'DATE' | 'TIME' | 'DATE_TIME' | 'SCIENTIFIC';
+    pattern?: string;
+  };
+}
+
+/**
+ * Conditional formatting rule coloring the cells that match a condition
+ * @see https://developers.google.com/sheets/api/reference/rest/v4/spreadsheets/other#ConditionType
+ */
+export interface ConditionalColorRule {
+  /** Condition type, e.g. 'NUMBER_GREATER', 'TEXT_CONTAINS' or 'CUSTOM_FORMULA' */
+  condition: string;
+  /** Condition values, e.g. ['100'] or ['=$C2>$D2'] */
+  values?: string[];
+  backgroundColor?: string;
+  textColor?: string;
+  bold?: boolean;
+}
+
+/**
+ * Options for protecting a range
+ */
+export interface ProtectRangeOptions {
+  description?: string;
+  /** Only warn when editing instead of blocking (default: false) */
+  warningOnly?: boolean;
+  /** Email addresses allowed to edit the range */
+  editors?: string[];
+}
+
+/**
+ * Range of a sheet in API form: 0-based indexes, end exclusive, omitted bounds are open
+ */
+export interface GridRange {
+  sheetId: number;
+  startRowIndex?: number;
+  endRowIndex?: number;
+  startColumnIndex?: number;
+  endColumnIndex?: number;
+}
+
+/**
+ * A protected range of a sheet
+ */
+export interface ProtectedRange {
+  protectedRangeId: number;
+  range: GridRange;
+  description?: string;
+  warningOnly?: boolean;
+  editors?: { users?: string[] };
+}
+
+/**
+ * Reply to one request of a spreadsheets:batchUpdate call, keyed by the request type
+ * Requests without a result (e.g. updateSheetProperties) get an empty reply
+ */
+export interface BatchUpdateReply {
+  addSheet?: { properties: SheetProperties };
+  duplicateSheet?: { properties: SheetProperties };
+  addProtectedRange?: { protectedRange: ProtectedRange };
+  [request: string]: unknown;
+}
+
+/**
+ * Response of a spreadsheets:batchUpdate call, with one reply per request in order
+ */
+export interface BatchUpdateResponse {
+  spreadsheetId: string;
+  replies: BatchUpdateReply[];
+}
+
+const INTEGRATION = 'google-sheet';
+
+/**
+ * Convert a range to a Sheets GridRange (0-based, end exclusive)
+ */
+export function toGridRange(range: A1Range, sheetId: number): GridRange {
+  // Without an end, the range is the start cell, row or column alone, like in A1 notation
+  const hasEnd = range.endRow !== undefined || range.endColumn !== undefined;
+
+  return {
+    sheetId,
+    startRowIndex: range.startRow !== undefined ? range.startRow - 1 : undefined,
+    endRowIndex: hasEnd ? range.endRow : range.startRow,
+    startColumnIndex: range.startColumn !== undefined ? range.startColumn - 1 : undefined,
+    endColumnIndex: hasEnd ? range.endColumn : range.startColumn
+  };
+}
+
+/**
+ * Convert a hex color ('#1a73e8' or '#fff') to a Sheets color
+ * @throws ValidationError if the color is not a hex color
+ */
+export function toColor(hex: string) {
+  const match = /^#?([0-9a-f]{3}|[0-9a-f]{6})$/i.exec(hex.trim());
+  if (!match) {
+    throw new ValidationError(`Invalid color: ${JSON.stringify(hex)}, expected a hex color like #1a73e8`, { integration: INTEGRATION });
+  }
+
+  const digits = match[1].length === 3 ? match[1].replace(/./g, '$&$&') : match[1];
+  return {
+    red: parseInt(digits.slice(0, 2), 16) / 255,
+    green: parseInt(digits.slice(2, 4), 16) / 255,
+    blue: parseInt(digits.slice(4, 6), 16) / 255
+  };
+}
+
+/**
+ * Build the repeatCell request applying a format to a range
+ * Only the given properties are changed, the rest of the cell format is kept
+ */
+export function formatRequest(gridRange: GridRange, format: CellFormatOptions) {
+  const textFormat: Record<string, unknown> = {};
+  const cellFormat: Record<string, unknown> = {};
+  const fields: string[] = [];
+
+  if (format.bold !== undefined) textFormat.bold = format.bold;
+  if (format.italic !== undefined) textFormat.italic = format.italic;
+  if (format.fontSize !== undefined) textFormat.fontSize = format.fontSize;
+  if (format.textColor !== undefined) textFormat.foregroundColor = toColor(format.textColor);
+  for (const key of Object.keys(textFormat)) {
+    fields.push(`userEnteredFormat.textFormat.${key}`);
+  }
+  if (fields.length > 0) {
+    cellFormat.textFormat = textFormat;
+  }
+
+  if (format.backgroundColor !== undefined) {
+    cellFormat.backgroundColor = toColor(format.backgroundColor);
+    fields.push('userEnteredFormat.backgroundColor');
+  }
+  if (format.horizontalAlignment !== undefined) {
+    cellFormat.horizontalAlignment = format.horizontalAlignment;
+    fields.push('userEnteredFormat.horizontalAlignment');
+  }
+  if (format.wrap !== undefined) {
+    cellFormat.wrapStrategy = format.wrap ? 'WRAP' : 'OVERFLOW_CELL';
+    fields.push('userEnteredFormat.wrapStrategy');
+  }
+  if (format.numberFormat !== undefined) {
+    cellFormat.numberFormat = format.numberFormat;
+    fields.push('userEnteredFormat.numberFormat');
+  }
+
+  if (fields.length === 0) {
+    throw new ValidationError('No format given', { integration: INTEGRATION });
+  }
+
+  return {
+    repeatCell: {
+      range: gridRange,
+      cell: { userEnteredFormat: cellFormat },
+      fields: fields.join(',')
+    }
+  };
+}
+
+/**
+ * Build the addConditionalFormatRule request coloring matching cells
+ */
+export function conditionalColorRequest(gridRange: GridRange, rule: ConditionalColorRule) {
+  if (rule.backgroundColor === undefined && rule.textColor === undefined && rule.bold === undefined) {
+    throw new ValidationError('A conditional rule needs a background color, text color or bold', { integration: INTEGRATION });
+  }
+
+  const format: Record<string, unknown> = {};
+  if (rule.backgroundColor !== undefined) {
+    format.backgroundColor = toColor(rule.backgroundColor);
+  }
+  if (rule.textColor !== undefined || rule.bold !== undefined) {
+    format.textFormat = {
+      ...(rule.textColor !== undefined ? { foregroundColor: toColor(rule.textColor) } : {}),
+      ...(rule.bold !== undefined ? { bold: rule.bold } : {})
+    };
+  }
+
+  return {
+    addConditionalFormatRule: {
+      index: 0,
+      rule: {
+        ranges: [gridRange],
+        booleanRule: {
+          condition: {
+            type: rule.condition,
+            values: (rule.values || []).map(userEnteredValue => ({ userEnteredValue }))
+          },
+          format
+        }
+      }
+    }
+  };
+}
@@ -0,0 +1,206 @@
+import { ColumnType, RecordSchema, coerceValue, toRow, toSerialDate } from './records';
+
+/**
+ * Options for upserting rows
+ */
+export interface UpsertOptions<T extends object = Record<string, unknown>> {
+  /** Delete the rows whose key is missing from the input (default: false) */
+  deleteMissing?: boolean;
+  /** Row holding the column names (default: 1) */
+  headerRow?: number;
+  /** Column types, cells and input are compared as these types (e.g. '1,000' and 1000 as numbers) */
+  schema?: RecordSchema<T>;
+}
+
+/**
+ * Keys of the rows affected by an upsert
+ */
+export interface UpsertResult {
+  inserted: string[];
+  updated: string[];
+  unchanged: string[];
+  deleted: string[];
+  /** Number of cells written to existing rows */
+  updatedCells: number;
+}
+
+/**
+ * Consecutive changed cells of a row
+ */
+export interface CellRun {
+  rowNumber: number;
+  /** 1-based column of the first cell */
+  column: number;
+  values: unknown[];
+}
+
+/**
+ * Changes needed to bring a sheet in line with the input records
+ */
+export interface UpsertPlan {
+  updates: CellRun[];
+  inserts: unknown[][];
+  /** Row numbers to delete, in descending order */
+  deletions: number[];
+  result: UpsertResult;
+}
+
+/**
+ * Compare the current rows with the input records, keeping only the cells that change
+ * Columns missing from a record are left unchanged in existing rows and empty in new rows.
+ * @param headers - Column names, in sheet order
+ * @param rows - Current rows following the header row
+ * @param firstRowNumber - Sheet row number of the first row
+ * @param keyColumn - Header of the column identifying rows
+ * @param records - Input records
+ * @param deleteMissing - Plan the deletion of rows missing from the input
+ * @param schema - Column types used to compare cells with the input
+ * @throws Error if the key column does not exist, or a record has no key or a duplicate key
+ */
+export function planUpsert(
+  headers: string[],
+  rows: unknown[][],
+  firstRowNumber: number,
+  keyColumn: string,
+  records: object[],
+  deleteMissing: boolean = false,
+  schema: RecordSchema = {}
+): UpsertPlan {
+  const types = headers.map(header => (schema as Record<string, ColumnType | undefined>)[header]);
+  const keyIndex = headers.indexOf(keyColumn);
+  if (keyIndex === -1) {
+    throw new Error(`Key column not found: ${keyColumn}`);
+  }
+
+  // The first row wins when the sheet already has duplicate keys
+  const existing = new Map<string, number>();
+  rows.forEach((row, index) => {
+    const key = toKey(row[keyIndex]);
+    if (key && !existing.has(key)) {
+      existing.set(key, index);
+    }
+  });
+
+  const plan: UpsertPlan = {
+    updates: [],
+    inserts: [],
+    deletions: [],
+    result: { inserted: [], updated: [], unchanged: [], deleted: [], updatedCells: 0 }
+  };
+  const seen = new Set<string>();
+
+  for (const record of records) {
+    const key = toKey((record as Record<string, unknown>)[keyColumn]);
+    if (!key) {
+      throw new Error(`Record without a value for key column ${keyColumn}`);
+    }
+    if (seen.has(key)) {
+      throw new Error(`Duplicate key in input: ${key}`);
+    }
+    seen.add(key);
+
+    const index = existing.get(key);
+    if (index === undefined) {
+      plan.inserts.push(toRow(record, headers, ''));
+      plan.result.inserted.push(key);
+      continue;
+    }
+
+    const runs = diffRow(rows[index], toRow(record, headers, null), firstRowNumber + index, types);
+    if (runs.length === 0) {
+      plan.result.unchanged.push(key);
+    } else {
+      plan.updates.push(...runs);
+      plan.result.updated.push(key);
+      plan.result.updatedCells += runs.reduce((count, run) => count + run.values.length, 0);
+    }
+  }
+
+  if (deleteMissing) {
+    rows.forEach((row, index) => {
+      const key = toKey(row[keyIndex]);
+      if (key && !seen.has(key)) {
+        plan.deletions.push(firstRowNumber + index);
+        plan.result.deleted.push(key);
+      }
+    });
+    plan.deletions.sort((a, b) => b - a);
+  }
+
+  return plan;
+}
+
+function diffRow(current: unknown[], next: unknown[], rowNumber: number, types: Array<ColumnType | undefined>): CellRun[] {
+  const runs: CellRun[] = [];
+  let run: CellRun | undefined;
+
+  next.forEach((value, index) => {
+    if (value === null || cellEquals(current[index], value, types[index])) {
+      run = undefined;
+      return;
+    }
+    if (!run) {
+      run = { rowNumber, column: index + 1, values: [] };
+      runs.push(run);
+    }
+    run.values.push(value);
+  });
+
+  return runs;
+}
+
+/**
+ * Compare an unformatted cell with a value about to be written
+ * Written values are parsed like user input, so '12.50', '1,000' or 'TRUE' match the number or boolean they become
+ */
+function cellEquals(current: unknown, next: unknown, type?: ColumnType): boolean {
+  const value = current ?? '';
+  // Dates are written as date-time strings but read back as serial numbers
+  if (typeof next === 'string' && typeof value === 'number' && /^\d{4}-\d{2}-\d{2} \d{2}:\d{2}/.test(next)) {
+    return Math.abs(toSerialDate(new Date(`${next.replace(' ', 'T')}Z`)) - value) < 1e-6;
+  }
+
+  if (type && value !== '' && next !== '') {
+    try {
+      const [a, b] = [coerceValue(value, type), coerceValue(next, type)];
+      return a instanceof Date && b instanceof Date ? a.getTime() === b.getTime() : a === b;
+    } catch {
+      // A value that doesn't fit the column type is compared as read
+    }
+  }
+
+  if (typeof value === 'number' || typeof next === 'number') {
+    const [a, b] = [toNumber(value), toNumber(next)];
+    if (a !== undefined && b !== undefined) {
+      return a === b;
+    }
+  }
+  if (typeof value === 'boolean' || typeof next === 'boolean') {
+    return String(value).trim().toLowerCase() === String(next).trim().toLowerCase();
+  }
+  return String(value) === String(next);
+}
+
+/**
+ * Read a number from a cell or input value, accepting thousands separators ('1,000.5')
+ */
+function toNumber(value: unknown): number | undefined {
+  if (typeof value === 'number') {
+    return value;
+  }
+  if (typeof value !== 'string') {
+    return undefined;
+  }
+
+  const text = value.trim();
+  const plain = /^[+-]?\d{1,3}(,\d{3})+(\.\d+)?$/.test(text) ? text.replace(/,/g, '') : text;
+  const number = Number(plain);
+  return plain !== '' && Number.isFinite(number) ? number : undefined;
+}
+
+function toKey(value: unknown): string {
+  if (value instanceof Date) {
+    return value.toISOString();
+  }
+  return value === undefined || value === null ? '' : String(value).trim();
+}
@@ -1,6 +1,6 @@
 // Export base integration classes and interfaces
 export { Integration } from './base';
-export type { BaseIntegration } from './base';
+export type { BaseIntegration, IntegrationOptions, IntegrationResponse } from './base';
 
 // Export authentication types and utilities
 export { 
@@ -14,7 +14,85 @@ export {
   type ExtractAuthToken
 } from './base';
 
+// Export the integration registry types
+export { integrationFactory } from './registry';
+export type { IntegrationRegistry, IntegrationConstructor, IntegrationFactory, IntegrationContext } from './registry';
+
 // Export integration implementations
-export { LinkedInIntegration } from './linkedin/linkedin';
+export { LinkedInIntegration, LINKEDIN_POST_JOB } from './linkedin/linkedin';
+export type { LinkedInProfile, LinkedInPostJob, ScheduledPostOptions } from './linkedin/linkedin';
+export type { LinkedInMedia, MediaPostOptions } from './linkedin/media';
+export type { CreatePostOptions, PostVisibility, PostMention, PostArticle, LinkedInPost, PostPage } from './linkedin/posts';
+export type {
+    LinkedInOrganization,
+    OrganizationRole,
+    ShareStatistics,
+    PostStatistics,
+    OrganizationShareStatistics
+} from './linkedin/organizations';
 export { GmailIntegration } from './google-mail/google-mail';
-export { OpenAIIntegration } from './openai/openai';
\ No newline at end of file
+export type { IterateEmailsOptions, IterateDraftsOptions, ReplyBody, ReplyOptions, ForwardOptions, GmailSyncOptions, LabelOptions } from './google-mail/google-mail';
+export { buildMimeMessage, encodeRawMessage } from './google-mail/mime';
+export type { EmailMessageOptions, EmailAttachment } from './google-mail/mime';
+export { InMemorySyncStateStore } from './google-mail/sync';
+export type {
+    SyncStateStore,
+    GmailSyncEvent,
+    GmailSyncEventType,
+    MessageAddedEvent,
+    MessageDeletedEvent,
+    LabelsAddedEvent,
+    LabelsRemovedEvent,
+    ResyncEvent
+} from './google-mail/sync';
+export { parseGmailMessage, parseAddressList, decodeMimeWords, decodeQuotedPrintable } from './google-mail/parser';
+export type { ParsedEmail, EmailAddress, EmailAttachmentInfo } from './google-mail/parser';
+export { GoogleSheetsIntegration } from './google-sheets/google-sheets';
+export type {
+    ReadValuesOptions,
+    ValueRange,
+    UpdateValuesResult,
+    AppendValuesResult,
+    BatchUpdateValuesResult,
+    ClearValuesResult
+} from './google-sheets/google-sheets';
+export { coerceValue, fromSerialDate, toSerialDate } from './google-sheets/records';
+export type { ColumnType, RecordSchema, RecordOptions, SheetRecord, RecordError, ReadRecordsResult } from './google-sheets/records';
+export type { UpsertOptions, UpsertResult } from './google-sheets/upsert';
+export { CsvParser, parseCsv, formatCsvRow } from './google-sheets/csv';
+export type { ExportRangeOptions, ImportCsvOptions, TransferProgress } from './google-sheets/csv';
+export {
+    columnToLetter,
+    letterToColumn,
+    quoteSheetName,
+    parseA1,
+    formatA1,
+    toA1,
+    encodeRange,
+    offsetRange,
+    expandRange,
+    intersectRanges
+} from './google-sheets/a1';
+export type { A1Range, RangeInput } from './google-sheets/a1';
+export { toColor, toGridRange } from './google-sheets/structure';
+export type {
+    SheetRef,
+    SheetProperties,
+    Spreadsheet,
+    CreateSpreadsheetOptions,
+    AddSheetOptions,
+    CellFormatOptions,
+    ConditionalColorRule,
+    ProtectRangeOptions,
+    GridRange,
+    ProtectedRange,
+    BatchUpdateReply,
+    BatchUpdateResponse
+} from './google-sheets/structure';
+export { OpenAIIntegration } from './openai/openai';
+export type { ChatMessage, ChatCompletionOptions, StreamChatCompletionOptions, OpenAIOptions } from './openai/openai';
+export { ChatCompletionStream } from './openai/stream';
+export type { ChatStreamDelta, ChatStreamResult, ChatUsage } from './openai/stream';
+export { createMethodTools, param, toolSchema, gmailTools, googleSheetsTools, linkedInTools } from './openai/tools';
+export type { AgentTool, JsonSchema, MethodKey, MethodToolBuilder, MethodToolSpec, ToolParam, TypedSchema } from './openai/tools';
+export type { RunAgentOptions, AgentToolCall, AgentToolCallResult, AgentResult } from './openai/agent';
@@ -1,2 +1,5 @@
-export { LinkedInIntegration } from './linkedin';
-
+export { LinkedInIntegration, LINKEDIN_POST_JOB } from './linkedin';
+export type { LinkedInProfile, LinkedInPostJob, ScheduledPostOptions } from './linkedin';
+export type { LinkedInMedia, MediaPostOptions } from './media';
+export type { CreatePostOptions, PostVisibility, PostMention, PostArticle, LinkedInPost, PostPage } from './posts';
+export type { LinkedInOrganization, OrganizationRole, ShareStatistics, PostStatistics, OrganizationShareStatistics } from './organizations';
@@ -1,4 +1,97 @@
-import { Integration, OAuth2Credentials, AuthType } from '../base';
+import { Integration, OAuth2Credentials, AuthType, IntegrationResponse } from '../base';
+import { KuweProxyConfig } from '../../app';
+import { DEFAULT_PROFILE_TTL_MS, TtlCache } from '../../cache';
+import { AuthError, ProviderError, ValidationError } from '../../errors';
+import { IterateOptions, paginate } from '../../pagination';
+import { sleep } from '../../retry';
+import { readHeader } from '../../transport/transport';
+import type { ScheduledJob } from '../../scheduler';
+import {
+  LinkedInMedia,
+  MediaPostOptions,
+  UploadedMedia,
+  REST_HEADERS,
+  MEDIA_RESOURCES,
+  validateMedia,
+  buildMediaContent,
+  readMediaContent,
+  splitUploadUrl
+} from './media';
+import { CreatePostOptions, LinkedInPost, PostPage, PostVisibility, formatCommentary, postUrl } from './posts';
+import {
+  LinkedInOrganization,
+  OrganizationRole,
+  OrganizationShareStatistics,
+  PostStatistics,
+  toOrganizationUrn,
+  toShareStatistics,
+  sumShareStatistics
+} from './organizations';
+
+/**
+ * Profile of the authenticated member
+ */
+export interface LinkedInProfile {
+  id: string;
+  /** Person URN used as the author of posts (urn:li:person:...) */
+  urn: string;
+  name?: string;
+  firstName?: string;
+  lastName?: string;
+  email?: string;
+  emailVerified?: boolean;
+  pictureUrl?: string;
+  locale?: { country?: string; language?: string };
+}
+
+/** Response of the OpenID Connect userinfo endpoint */
+interface UserInfo {
+  sub?: string;
+  name?: string;
+  given_name?: string;
+  family_name?: string;
+  email?: string;
+  email_verified?: boolean;
+  picture?: string;
+  locale?: { country?: string; language?: string };
+}
+
+interface OrganizationDetails {
+  localizedName?: string;
+  vanityName?: string;
+}
+
+interface ShareStatisticsElement {
+  share?: string;
+  ugcPost?: string;
+  totalShareStatistics?: Record<string, number>;
+}
+
+/** Response of an initializeUpload action, videos are uploaded in parts */
+interface InitializedUpload {
+  image?: string;
+  video?: string;
+  document?: string;
+  uploadUrl?: string;
+  uploadToken?: string;
+  uploadInstructions?: Array<{ uploadUrl: string; firstByte: number; lastByte: number }>;
+}
+
+/** Type of the scheduler jobs publishing LinkedIn posts */
+export const LINKEDIN_POST_JOB = 'linkedin.createPost';
+
+/**
+ * Payload of a scheduled post job
+ */
+export interface LinkedInPostJob {
+  connectionId: string;
+  post: ScheduledPostOptions;
+}
+
+/**
+ * Post options that can be scheduled (uploads are not kept in the job store)
+ */
+export type ScheduledPostOptions = Omit<CreatePostOptions, 'media' | 'pollIntervalMs' | 'processingTimeoutMs'>;
 
 /**
  * LinkedIn integration class
@@ -8,6 +101,8 @@ export class LinkedInIntegration extends Integration<OAuth2Credentials> {
   readonly name = 'linkedin';
   readonly providerConfigKey = 'linkedin';
 
+  private profileCache: TtlCache<unknown> = this.options.profileCache || new TtlCache();
+
   /**
    * Get LinkedIn access token directly with type safety
    * No need for manual type checking!
@@ -16,53 +111,506 @@ export class LinkedInIntegration extends Integration<OAuth2Credentials> {
     return this.getAuthToken(); // TypeScript knows this returns a string
   }
 
-  public async createTextPost(text: string, visibility: "PUBLIC" | "PRIVATE" = "PUBLIC") {
-    // First, get user information to extract LinkedIn user ID
-    const userInfoResponse = await this.proxyRequest({
-      baseUrlOverride: 'https://api.linkedin.com/',
-      method: 'GET',
-      endpoint: '/v2/userinfo',
-    });
+  /**
+   * Get the profile of the authenticated member
+   * The profile is cached per connection for `profileTtlMs`, since every post needs the member URN as its author.
+   * The cached profile is dropped when LinkedIn rejects the connection, as it may have been reconnected to another member
+   * @param forceRefresh - Fetch the profile again instead of using the cache
+   */
+  public async getProfile(forceRefresh: boolean = false): Promise<IntegrationResponse<LinkedInProfile>> {
+    const key = this.connectionKey;
+    let pending = forceRefresh ? undefined : this.profileCache.get(key) as Promise<LinkedInProfile> | undefined;
+    if (!pending) {
+      const fetched = this.fetchProfile();
+      pending = fetched;
+      this.profileCache.set(key, fetched, this.options.profileTtlMs ?? DEFAULT_PROFILE_TTL_MS);
+      // Don't cache failures, the next call tries again
+      fetched.catch(() => {
+        if (this.profileCache.get(key) === fetched) {
+          this.profileCache.delete(key);
+        }
+      });
+    }
 
-    if (!userInfoResponse.data?.sub) {
-      return {
-        success: false,
-        error: 'LinkedIn user ID not found'
+    return {
+      success: true,
+      data: await pending,
+      message: 'Profile retrieved successfully'
+    };
+  }
+
+  /**
+   * Create a post on behalf of the authenticated member, or of an organization they administer
+   * Text is sent as written: `#word` becomes a hashtag, other reserved characters are escaped and mentions come from `mentions`
+   * @param options - Text, visibility, shared link or media, and mentions
+   * @throws ValidationError if the post combines a link with media or the media cannot be posted together
+   * @throws ProviderError if an upload fails or is not processed in time
+   */
+  public async createPost(options: CreatePostOptions) {
+    if (options.article && options.media && options.media.length > 0) {
+      throw new ValidationError('A post cannot share a link and media at the same time', { integration: this.name });
+    }
+    if (options.media) {
+      validateMedia(options.media);
+    }
+
+    const commentary = formatCommentary(options.text, options.mentions);
+    const author = options.author !== undefined
+      ? toOrganizationUrn(options.author)
+      : (await this.getProfile()).data.urn;
+
+    let content: Record<string, unknown> | undefined;
+    let mediaIds: string[] | undefined;
+    if (options.media && options.media.length > 0) {
+      const uploads = await this.uploadAll(author, options.media, options);
+      content = buildMediaContent(uploads);
+      mediaIds = uploads.map(upload => upload.urn);
+    } else if (options.article) {
+      const { url, title, description, thumbnail, thumbnailAltText } = options.article;
+      const [upload] = thumbnail
+        ? await this.uploadAll(author, [{ type: 'image', content: thumbnail, altText: thumbnailAltText }], options)
+        : [];
+      content = {
+        article: {
+          source: url,
+          title,
+          description,
+          thumbnail: upload?.urn,
+          thumbnailAltText: upload ? thumbnailAltText : undefined
+        }
       };
     }
 
-    const linkedInUserId = userInfoResponse.data.sub;
-    // Prepare the LinkedIn post payload following the ugcPosts API format
-    const postPayload = {
-      author: `urn:li:person:${linkedInUserId}`,
-      lifecycleState: 'PUBLISHED',
-      specificContent: {
-        'com.linkedin.ugc.ShareContent': {
-          shareCommentary: {
-            text: text,
-          },
-          shareMediaCategory: 'NONE',
+    const response = await this.restRequest({
+      method: 'POST',
+      endpoint: '/rest/posts',
+      data: {
+        author,
+        commentary,
+        visibility: options.visibility || 'PUBLIC',
+        distribution: {
+          feedDistribution: 'MAIN_FEED',
+          targetEntities: [],
+          thirdPartyDistributionChannels: []
         },
+        content,
+        lifecycleState: 'PUBLISHED',
+        isReshareDisabledByAuthor: options.disableReshare ?? false
+      }
+    });
+
+    const postId = readHeader(response.headers, 'x-restli-id');
+    return {
+      success: true,
+      data: {
+        postId,
+        postUrl: postId ? postUrl(postId) : undefined,
+        mediaIds
       },
-      visibility: {
-        'com.linkedin.ugc.MemberNetworkVisibility': visibility,
-      },
+      message: 'Post created successfully'
     };
+  }
 
-    // Create the post using Nango's proxy
-    const postResponse = await this.proxyRequest({
-      method: 'POST',
-      baseUrlOverride: 'https://api.linkedin.com/',
-      endpoint: '/v2/ugcPosts',
-      data: postPayload,
+  /**
+   * Create a text post on behalf of the authenticated member
+   * @param text - Post content
+   * @param visibility - Who can see the post (default: 'PUBLIC')
+   * @throws KuweError if the member cannot be resolved or the post is rejected
+   */
+  public async createTextPost(text: string, visibility: PostVisibility = 'PUBLIC') {
+    return this.createPost({ text, visibility });
+  }
+
+  /**
+   * Create a post with images, a video or a document (PDF, PPTX, DOCX)
+   * Media are uploaded and processed by LinkedIn before the post is published
+   * @param text - Post commentary
+   * @param media - One video, one document, or up to 20 images
+   * @param visibility - Who can see the post (default: 'PUBLIC')
+   * @param options - Processing poll interval and timeout
+   * @throws ValidationError if the media cannot be posted together
+   * @throws ProviderError if an upload fails or is not processed in time
+   */
+  public async createMediaPost(
+    text: string,
+    media: LinkedInMedia[],
+    visibility: PostVisibility = 'PUBLIC',
+    options: MediaPostOptions = {}
+  ) {
+    validateMedia(media);
+    return this.createPost({ ...options, text, media, visibility });
+  }
+
+  /**
+   * Schedule a post to be published later by the scheduler
+   * Publishing needs a started scheduler (`kuwe.scheduler.start()`), failures are retried when LinkedIn reports them as temporary
+   * @param post - Post text, or post options without media
+   * @param publishAt - When to publish the post
+   * @param jobId - Job ID, to avoid scheduling the same post twice (default: random)
+   * @throws ValidationError if no scheduler is configured, the post has uploads or the date is invalid
+   */
+  public async schedulePost(
+    post: string | ScheduledPostOptions,
+    publishAt: Date | number,
+    jobId?: string
+  ): Promise<IntegrationResponse<ScheduledJob<LinkedInPostJob>>> {
+    const scheduler = this.options.scheduler;
+    if (!scheduler) {
+      throw new ValidationError('Scheduling posts requires a scheduler in the integration options', { integration: this.name });
+    }
+
+    const options = typeof post === 'string' ? { text: post } : post;
+    if ((options as CreatePostOptions).media || options.article?.thumbnail) {
+      throw new ValidationError('Posts with media or thumbnails cannot be scheduled', { integration: this.name });
+    }
+    // Validate mentions now rather than when the post is due
+    formatCommentary(options.text, options.mentions);
+
+    const job = await scheduler.schedule<LinkedInPostJob>(
+      LINKEDIN_POST_JOB,
+      { connectionId: this.connectionId, post: options },
+      publishAt,
+      { id: jobId }
+    );
+
+    return {
+      success: true,
+      data: job,
+      message: 'Post scheduled successfully'
+    };
+  }
+
+  /**
+   * Get a post
+   * @param postId - Post URN (urn:li:share:... or urn:li:ugcPost:...)
+   * @throws NotFoundError if the post does not exist
+   */
+  public async getPost(postId: string): Promise<IntegrationResponse<LinkedInPost>> {
+    const response = await this.restRequest<LinkedInPost>({
+      method: 'GET',
+      endpoint: `/rest/posts/${encodeURIComponent(postId)}`
+    });
+
+    return {
+      success: true,
+      data: response.data,
+      message: 'Post retrieved successfully'
+    };
+  }
+
+  /**
+   * Delete a post
+   * @param postId - Post URN (urn:li:share:... or urn:li:ugcPost:...)
+   */
+  public async deletePost(postId: string): Promise<IntegrationResponse<void>> {
+    await this.restRequest({
+      method: 'DELETE',
+      endpoint: `/rest/posts/${encodeURIComponent(postId)}`,
+      headers: { 'X-RestLi-Method': 'DELETE' }
+    });
+
+    return {
+      success: true,
+      data: undefined,
+      message: 'Post deleted successfully'
+    };
+  }
+
+  /**
+   * List the posts of the authenticated member, most recently modified first
+   * @param count - Maximum number of posts to return (default: 10, at most 100)
+   * @param start - Offset of the first post, from the nextStart of the previous page (default: 0)
+   */
+  public async listMyPosts(count: number = 10, start: number = 0): Promise<IntegrationResponse<PostPage>> {
+    const { data: profile } = await this.getProfile();
+    return this.listPostsBy(profile.urn, count, start);
+  }
+
+  /**
+   * Iterate over all posts of the authenticated member, fetching pages lazily
+   * @param options - Page size, limit and abort signal
+   */
+  public async *iterateMyPosts(options: IterateOptions = {}): AsyncGenerator<LinkedInPost> {
+    const count = options.pageSize ?? 50;
+    yield* paginate<LinkedInPost>(async pageToken => {
+      const { data } = await this.listMyPosts(count, pageToken ? Number(pageToken) : 0);
+      return { items: data.posts, nextPageToken: data.nextStart !== undefined ? String(data.nextStart) : undefined };
+    }, options);
+  }
+
+  /**
+   * List the organizations (company pages) the authenticated member has a role on
+   * @param role - Role on the page (default: 'ADMINISTRATOR')
+   */
+  public async listOrganizations(role: OrganizationRole = 'ADMINISTRATOR'): Promise<IntegrationResponse<LinkedInOrganization[]>> {
+    const acls: Array<{ organization: string; role: OrganizationRole }> = [];
+    for (let start = 0; ; start += 100) {
+      const response = await this.restRequest<{ elements?: Array<{ organization: string; role: OrganizationRole }> }>({
+        method: 'GET',
+        endpoint: `/rest/organizationAcls?q=roleAssignee&role=${role}&state=APPROVED&count=100&start=${start}`
+      });
+      const elements = response.data?.elements || [];
+      acls.push(...elements);
+      if (elements.length < 100) {
+        break;
+      }
+    }
+
+    const ids = acls.map(acl => Number(acl.organization.split(':').pop()));
+    const details: Record<string, OrganizationDetails> = {};
+    if (ids.length > 0) {
+      const response = await this.restRequest<{ results?: Record<string, OrganizationDetails> }>({
+        method: 'GET',
+        endpoint: `/rest/organizations?ids=List(${ids.join(',')})`
+      });
+      Object.assign(details, response.data?.results);
+    }
+
+    return {
+      success: true,
+      data: acls.map((acl, index) => ({
+        id: ids[index],
+        urn: acl.organization,
+        name: details[ids[index]]?.localizedName,
+        vanityName: details[ids[index]]?.vanityName,
+        role: acl.role
+      })),
+      message: 'Organizations retrieved successfully'
+    };
+  }
+
+  /**
+   * List the posts of an organization, most recently modified first
+   * @param organization - Organization ID or URN
+   * @param count - Maximum number of posts to return (default: 10, at most 100)
+   * @param start - Offset of the first post, from the nextStart of the previous page (default: 0)
+   */
+  public async listOrganizationPosts(
+    organization: string | number,
+    count: number = 10,
+    start: number = 0
+  ): Promise<IntegrationResponse<PostPage>> {
+    return this.listPostsBy(toOrganizationUrn(organization), count, start);
+  }
+
+  /**
+   * Get impressions, clicks, reactions, comments and shares of an organization's posts
+   * @param organization - Organization ID or URN
+   * @param postIds - Post URNs (urn:li:share:... or urn:li:ugcPost:...), omit them for the lifetime totals of the organization
+   * @throws ValidationError if a post ID is not a share or ugcPost URN
+   */
+  public async getShareStatistics(
+    organization: string | number,
+    postIds: string[] = []
+  ): Promise<IntegrationResponse<OrganizationShareStatistics>> {
+    const organizationUrn = toOrganizationUrn(organization);
+    const shares = postIds.filter(id => id.startsWith('urn:li:share:'));
+    const ugcPosts = postIds.filter(id => id.startsWith('urn:li:ugcPost:'));
+    if (shares.length + ugcPosts.length !== postIds.length) {
+      throw new ValidationError('Post IDs must be urn:li:share or urn:li:ugcPost URNs', { integration: this.name });
+    }
+
+    const list = (urns: string[]) => `List(${urns.map(urn => encodeURIComponent(urn)).join(',')})`;
+    const response = await this.restRequest<{ elements?: ShareStatisticsElement[] }>({
+      method: 'GET',
+      endpoint: `/rest/organizationalEntityShareStatistics?q=organizationalEntity&organizationalEntity=${encodeURIComponent(organizationUrn)}` +
+        (shares.length > 0 ? `&shares=${list(shares)}` : '') +
+        (ugcPosts.length > 0 ? `&ugcPosts=${list(ugcPosts)}` : '')
     });
-      return {
+
+    const elements = response.data?.elements || [];
+    const posts: PostStatistics[] = elements
+      .filter(element => element.share || element.ugcPost)
+      .map(element => ({ postId: (element.share || element.ugcPost)!, ...toShareStatistics(element.totalShareStatistics) }));
+    const totals = postIds.length > 0
+      ? sumShareStatistics(posts)
+      : toShareStatistics(elements[0]?.totalShareStatistics);
+
+    return {
+      success: true,
+      data: { organization: organizationUrn, totals, posts },
+      message: 'Share statistics retrieved successfully'
+    };
+  }
+
+  /**
+   * List the posts of an author, most recently modified first
+   */
+  private async listPostsBy(author: string, count: number, start: number): Promise<IntegrationResponse<PostPage>> {
+    const response = await this.restRequest<{ elements?: LinkedInPost[]; paging?: { total?: number } }>({
+      method: 'GET',
+      endpoint: `/rest/posts?q=author&author=${encodeURIComponent(author)}&count=${count}&start=${start}&sortBy=LAST_MODIFIED`
+    });
+
+    const posts = response.data?.elements || [];
+    return {
       success: true,
       data: {
-        postId: postResponse.data?.id,
-        postUrl: postResponse.data?.permalink,
-        message: 'Post created successfully',
+        posts,
+        nextStart: posts.length === count ? start + count : undefined,
+        total: response.data?.paging?.total
       },
+      message: 'Posts retrieved successfully'
     };
   }
+
+  /**
+   * Fetch the profile of the authenticated member from the OpenID Connect userinfo endpoint
+   */
+  private async fetchProfile(): Promise<LinkedInProfile> {
+    const response = await this.proxyRequest<UserInfo>({
+      baseUrlOverride: 'https://api.linkedin.com/',
+      method: 'GET',
+      endpoint: '/v2/userinfo'
+    });
+
+    const info = response.data;
+    if (!info?.sub) {
+      throw new ProviderError('LinkedIn user ID not found', { integration: this.name });
+    }
+
+    return {
+      id: info.sub,
+      urn: `urn:li:person:${info.sub}`,
+      name: info.name,
+      firstName: info.given_name,
+      lastName: info.family_name,
+      email: info.email,
+      emailVerified: info.email_verified,
+      pictureUrl: info.picture,
+      locale: info.locale
+    };
+  }
+
+  /**
+   * Proxy request dropping the cached profile when the connection is rejected (401/403)
+   */
+  protected async proxyRequest<T = unknown>(config: Omit<KuweProxyConfig, 'providerConfigKey'>) {
+    try {
+      return await super.proxyRequest<T>(config);
+    } catch (error) {
+      if (error instanceof AuthError) {
+        this.profileCache.delete(this.connectionKey);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Proxy a request to the versioned (/rest) LinkedIn API
+   */
+  private async restRequest<T = unknown>(config: Omit<KuweProxyConfig, 'providerConfigKey' | 'baseUrlOverride'>) {
+    return this.proxyRequest<T>({
+      ...config,
+      baseUrlOverride: 'https://api.linkedin.com/',
+      headers: { ...REST_HEADERS, ...config.headers }
+    });
+  }
+
+  /**
+   * Upload media and wait until LinkedIn has processed all of it
+   */
+  private async uploadAll(owner: string, media: LinkedInMedia[], options: MediaPostOptions): Promise<UploadedMedia[]> {
+    const uploads: UploadedMedia[] = [];
+    for (const item of media) {
+      uploads.push({ urn: await this.uploadMedia(owner, item), media: item });
+    }
+    for (const upload of uploads) {
+      await this.waitForMedia(upload, options);
+    }
+    return uploads;
+  }
+
+  /**
+   * Register an upload and send the media content, returning the media URN
+   * Videos are sent in the parts LinkedIn asks for, then the upload is finalized
+   */
+  private async uploadMedia(owner: string, media: LinkedInMedia): Promise<string> {
+    const content = await readMediaContent(media.content);
+    const resource = MEDIA_RESOURCES[media.type];
+    const initializeUploadRequest = media.type === 'video'
+      ? { owner, fileSizeBytes: content.length, uploadCaptions: false, uploadThumbnail: false }
+      : { owner };
+
+    const response = await this.restRequest<{ value?: InitializedUpload }>({
+      method: 'POST',
+      endpoint: `/rest/${resource}?action=initializeUpload`,
+      data: { initializeUploadRequest }
+    });
+
+    const upload = response.data?.value;
+    const urn = upload?.[media.type];
+    if (!upload || !urn || (media.type !== 'video' && !upload.uploadUrl)) {
+      throw new ProviderError(`LinkedIn did not register the ${media.type} upload`, { integration: this.name });
+    }
+
+    if (media.type !== 'video') {
+      await this.putUploadPart(upload.uploadUrl!, content);
+      return urn;
+    }
+
+    const uploadedPartIds: string[] = [];
+    for (const part of upload.uploadInstructions || []) {
+      const etag = await this.putUploadPart(part.uploadUrl, content.subarray(part.firstByte, part.lastByte + 1));
+      if (!etag) {
+        throw new ProviderError('LinkedIn did not acknowledge a video part', { integration: this.name });
+      }
+      uploadedPartIds.push(etag);
+    }
+
+    await this.restRequest({
+      method: 'POST',
+      endpoint: '/rest/videos?action=finalizeUpload',
+      data: {
+        finalizeUploadRequest: {
+          video: urn,
+          uploadToken: upload.uploadToken || '',
+          uploadedPartIds
+        }
+      }
+    });
+    return urn;
+  }
+
+  /**
+   * Send binary content to an upload URL, returning the ETag of the upload
+   */
+  private async putUploadPart(uploadUrl: string, content: Buffer): Promise<string | undefined> {
+    const response = await this.proxyRequest({
+      ...splitUploadUrl(uploadUrl),
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/octet-stream' },
+      data: content
+    });
+    return readHeader(response.headers, 'etag');
+  }
+
+  /**
+   * Poll the status of uploaded media until LinkedIn has processed it
+   * @throws ProviderError if processing fails or does not finish in time
+   */
+  private async waitForMedia(upload: UploadedMedia, options: MediaPostOptions): Promise<void> {
+    const pollIntervalMs = options.pollIntervalMs ?? 2000;
+    const deadline = Date.now() + (options.processingTimeoutMs ?? 5 * 60 * 1000);
+    const resource = MEDIA_RESOURCES[upload.media.type];
+
+    for (;;) {
+      const response = await this.restRequest<{ status?: string }>({
+        method: 'GET',
+        endpoint: `/rest/${resource}/${encodeURIComponent(upload.urn)}`
+      });
+
+      const status = response.data?.status;
+      if (status === 'AVAILABLE') {
+        return;
+      }
+      if (status === 'PROCESSING_FAILED') {
+        throw new ProviderError(`LinkedIn failed to process ${upload.urn}`, { integration: this.name });
+      }
+      if (Date.now() + pollIntervalMs > deadline) {
+        throw new ProviderError(`Timed out waiting for LinkedIn to process ${upload.urn}`, { integration: this.name });
+      }
+      await sleep(pollIntervalMs);
+    }
+  }
 } 
\ No newline at end of file
@@ -0,0 +1,120 @@
+import { Readable } from 'stream';
+import { ValidationError } from '../../errors';
+
+/**
+ * Image, video or document (PDF, PPTX, DOCX) attached to a post
+ */
+export interface LinkedInMedia {
+  type: 'image' | 'video' | 'document';
+  content: Buffer | Readable;
+  /** Accessibility text of images and videos */
+  altText?: string;
+  /** Title shown with videos and documents, required for documents */
+  title?: string;
+}
+
+/**
+ * Options for creating a media post
+ */
+export interface MediaPostOptions {
+  /** Delay between checks of the upload processing status (default: 2000) */
+  pollIntervalMs?: number;
+  /** Maximum time to wait for uploads to be processed (default: 5 minutes) */
+  processingTimeoutMs?: number;
+}
+
+/**
+ * An uploaded media asset
+ */
+export interface UploadedMedia {
+  urn: string;
+  media: LinkedInMedia;
+}
+
+/** LinkedIn Marketing API version used by the versioned (/rest) endpoints */
+export const LINKEDIN_API_VERSION = '202509';
+
+/** Headers of requests to the versioned (/rest) endpoints */
+export const REST_HEADERS = {
+  'LinkedIn-Version': LINKEDIN_API_VERSION,
+  'X-Restli-Protocol-Version': '2.0.0'
+};
+
+const INTEGRATION = 'linkedin';
+
+/** Endpoint path of each media type under /rest */
+export const MEDIA_RESOURCES = {
+  image: 'images',
+  video: 'videos',
+  document: 'documents'
+} as const;
+
+/**
+ * Check that the media can be posted together
+ * A post has one video, one document, or one to twenty images
+ * @throws ValidationError if the combination is not supported
+ */
+export function validateMedia(media: LinkedInMedia[]): void {
+  if (media.length === 0) {
+    throw new ValidationError('A media post needs at least one image, video or document', { integration: INTEGRATION });
+  }
+
+  const images = media.filter(item => item.type === 'image').length;
+  if (images !== media.length && media.length > 1) {
+    throw new ValidationError('Videos and documents must be posted alone', { integration: INTEGRATION });
+  }
+  if (images > 20) {
+    throw new ValidationError('A post can have at most 20 images', { integration: INTEGRATION });
+  }
+
+  for (const item of media) {
+    if (item.type === 'document' && !item.title) {
+      throw new ValidationError('Document posts require a title', { integration: INTEGRATION });
+    }
+  }
+}
+
+/**
+ * Build the content of a post from its uploaded media
+ */
+export function buildMediaContent(uploads: UploadedMedia[]) {
+  if (uploads.length > 1) {
+    return {
+      multiImage: {
+        images: uploads.map(upload => ({ id: upload.urn, altText: upload.media.altText }))
+      }
+    };
+  }
+
+  const [upload] = uploads;
+  return {
+    media: {
+      id: upload.urn,
+      title: upload.media.title,
+      altText: upload.media.type === 'document' ? undefined : upload.media.altText
+    }
+  };
+}
+
+/**
+ * Read media content into memory (video uploads are split into parts by byte range)
+ */
+export async function readMediaContent(content: Buffer | Readable): Promise<Buffer> {
+  if (Buffer.isBuffer(content)) {
+    return content;
+  }
+
+  const chunks: Buffer[] = [];
+  for await (const chunk of content) {
+    chunks.push(Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk));
+  }
+  return Buffer.concat(chunks);
+}
+
+/**
+ * Split an upload URL into the proxy base URL and endpoint
+ */
+export function splitUploadUrl(uploadUrl: string): { baseUrlOverride: string; endpoint: string } {
+  const url = new URL(uploadUrl);
+  return { baseUrlOverride: `${url.origin}/`, endpoint: `${url.pathname}${url.search}` };
+}
@@ -0,0 +1,103 @@
+import { ValidationError } from '../../errors';
+
+/**
+ * Role of the member on an organization page
+ */
+export type OrganizationRole = 'ADMINISTRATOR' | 'DIRECT_SPONSORED_CONTENT_POSTER' | 'RECRUITING_POSTER' | 'LEAD_GEN_FORMS_MANAGER' | 'ANALYST' | 'CURATOR' | 'CONTENT_ADMINISTRATOR';
+
+/**
+ * An organization (company page) the member has a role on
+ */
+export interface LinkedInOrganization {
+  id: number;
+  /** Organization URN to use as a post author (urn:li:organization:...) */
+  urn: string;
+  name?: string;
+  vanityName?: string;
+  role: OrganizationRole;
+}
+
+/**
+ * Engagement counts of one or more posts
+ */
+export interface ShareStatistics {
+  impressions: number;
+  uniqueImpressions: number;
+  clicks: number;
+  /** Reactions of all kinds (like, celebrate, support...) */
+  reactions: number;
+  comments: number;
+  shares: number;
+  /** (clicks + reactions + comments + shares) / impressions */
+  engagement: number;
+}
+
+/**
+ * Engagement counts of a post
+ */
+export interface PostStatistics extends ShareStatistics {
+  postId: string;
+}
+
+/**
+ * Engagement of an organization's posts
+ */
+export interface OrganizationShareStatistics {
+  organization: string;
+  /** Lifetime totals of the organization, or the sum of the requested posts */
+  totals: ShareStatistics;
+  /** Statistics of each requested post */
+  posts: PostStatistics[];
+}
+
+const INTEGRATION = 'linkedin';
+
+/**
+ * Normalize an organization ID or URN to a URN
+ * @throws ValidationError if the value is neither
+ */
+export function toOrganizationUrn(organization: string | number): string {
+  const value = String(organization);
+  if (/^\d+$/.test(value)) {
+    return `urn:li:organization:${value}`;
+  }
+  if (!/^urn:li:organization:\d+$/.test(value)) {
+    throw new ValidationError(`Invalid organization: ${JSON.stringify(value)}, expected an ID or urn:li:organization URN`, { integration: INTEGRATION });
+  }
+  return value;
+}
+
+/**
+ * Convert the totalShareStatistics of the API to ShareStatistics
+ */
+export function toShareStatistics(stats: Record<string, number | undefined> = {}): ShareStatistics {
+  return {
+    impressions: stats.impressionCount ?? 0,
+    uniqueImpressions: stats.uniqueImpressionsCount ?? 0,
+    clicks: stats.clickCount ?? 0,
+    reactions: stats.likeCount ?? 0,
+    comments: stats.commentCount ?? 0,
+    shares: stats.shareCount ?? 0,
+    engagement: stats.engagement ?? 0
+  };
+}
+
+/**
+ * Add up the statistics of several posts
+ * Unique impressions cannot be combined across posts, the sum is an upper bound
+ */
+export function sumShareStatistics(stats: ShareStatistics[]): ShareStatistics {
+  const totals = toShareStatistics();
+  for (const item of stats) {
+    totals.impressions += item.impressions;
+    totals.uniqueImpressions += item.uniqueImpressions;
+    totals.clicks += item.clicks;
+    totals.reactions += item.reactions;
+    totals.comments += item.comments;
+    totals.shares += item.shares;
+  }
+
+  const interactions = totals.clicks + totals.reactions + totals.comments + totals.shares;
+  totals.engagement = totals.impressions > 0 ? interactions / totals.impressions : 0;
+  return totals;
+}
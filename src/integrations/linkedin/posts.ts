@@ -0,0 +1,127 @@
+import { Readable } from 'stream';
+import { ValidationError } from '../../errors';
+import { LinkedInMedia, MediaPostOptions } from './media';
+
+/**
+ * Who can see a post
+ */
+export type PostVisibility = 'PUBLIC' | 'CONNECTIONS' | 'LOGGED_IN';
+
+/**
+ * A member or organization mentioned in a post
+ * The first `@name` in the text becomes the mention
+ */
+export interface PostMention {
+  name: string;
+  /** e.g. `urn:li:person:abc123` or `urn:li:organization:123` */
+  urn: string;
+}
+
+/**
+ * Link shared in a post
+ */
+export interface PostArticle {
+  url: string;
+  title: string;
+  description?: string;
+  /** Thumbnail image, uploaded with the post */
+  thumbnail?: Buffer | Readable;
+  /** Accessibility text of the thumbnail */
+  thumbnailAltText?: string;
+}
+
+/**
+ * Options for creating a post
+ */
+export interface CreatePostOptions extends MediaPostOptions {
+  text: string;
+  /** Organization ID or URN to post as the company page (default: the authenticated member) */
+  author?: string | number;
+  /** Who can see the post (default: 'PUBLIC') */
+  visibility?: PostVisibility;
+  /** Share a link (cannot be combined with media) */
+  article?: PostArticle;
+  /** One video, one document, or up to 20 images */
+  media?: LinkedInMedia[];
+  mentions?: PostMention[];
+  /** Prevent others from resharing the post (default: false) */
+  disableReshare?: boolean;
+}
+
+/**
+ * A post as returned by the Posts API
+ */
+export interface LinkedInPost {
+  id: string;
+  author: string;
+  commentary?: string;
+  visibility: PostVisibility | 'CONTAINER';
+  lifecycleState: 'DRAFT' | 'PUBLISHED' | 'PUBLISH_REQUESTED' | 'PUBLISH_FAILED';
+  content?: Record<string, unknown>;
+  createdAt?: number;
+  publishedAt?: number;
+  lastModifiedAt?: number;
+  isReshareDisabledByAuthor?: boolean;
+}
+
+/**
+ * A page of posts
+ */
+export interface PostPage {
+  posts: LinkedInPost[];
+  /** Offset to request the next page from, undefined on the last page */
+  nextStart?: number;
+  total?: number;
+}
+
+const INTEGRATION = 'linkedin';
+
+/**
+ * Escape the characters the Posts API reserves in commentary (mentions, hashtags, formatting)
+ */
+export function escapeCommentary(text: string): string {
+  return text.replace(/[\\|{}@[\]()<>#*_~]/g, '\\$&');
+}
+
+/**
+ * Escape plain text for commentary, keeping `#word` hashtags as hashtags
+ */
+function formatText(text: string): string {
+  return text.split(/((?<![\p{L}\p{N}_])#[\p{L}\p{N}_]+)/u)
+    .map((part, index) => index % 2 === 1 ? `{hashtag|\\#|${escapeCommentary(part.slice(1))}}` : escapeCommentary(part))
+    .join('');
+}
+
+/**
+ * Build the commentary of a post from plain text
+ * `#word` becomes a hashtag and the first `@name` of each mention a mention, other reserved characters are escaped
+ * @throws ValidationError if a mentioned name is not in the text
+ */
+export function formatCommentary(text: string, mentions: PostMention[] = []): string {
+  const found = mentions.map(mention => {
+    const index = text.indexOf(`@${mention.name}`);
+    if (index === -1) {
+      throw new ValidationError(`Mention @${mention.name} not found in the post text`, { integration: INTEGRATION });
+    }
+    return { mention, start: index, end: index + mention.name.length + 1 };
+  }).sort((a, b) => a.start - b.start);
+
+  let commentary = '';
+  let position = 0;
+  for (const { mention, start, end } of found) {
+    if (start < position) {
+      throw new ValidationError(`Mention @${mention.name} overlaps another mention`, { integration: INTEGRATION });
+    }
+    commentary += formatText(text.slice(position, start));
+    commentary += `@[${escapeCommentary(mention.name)}](${mention.urn})`;
+    position = end;
+  }
+  return commentary + formatText(text.slice(position));
+}
+
+/**
+ * URL of a post on linkedin.com
+ */
+export function postUrl(postId: string): string {
+  return `https://www.linkedin.com/feed/update/${postId}/`;
+}
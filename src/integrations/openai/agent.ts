@@ -0,0 +1,161 @@
+import type {
+    ChatCompletionMessageParam,
+    ChatCompletionMessageToolCall,
+    ChatCompletionTool
+} from 'openai/resources/chat/completions';
+import { ValidationError } from '../../errors';
+import type { ChatUsage } from './stream';
+import type { AgentTool } from './tools';
+
+/**
+ * Options for running an agent
+ */
+export interface RunAgentOptions {
+    /** Tools the model can call, e.g. `[...gmailTools(kuwe.gmail), ...googleSheetsTools(kuwe.googleSheets)]` */
+    tools: AgentTool[];
+    /** Maximum number of model calls before the run stops (default: 10) */
+    maxSteps?: number;
+    /** Names of the tools the model may call, the others are not offered to it (default: all) */
+    allow?: string[];
+    /**
+     * Called before each call of a tool with side effects, which only runs if it resolves to true
+     * Without it, tools with side effects are never called
+     */
+    confirm?: (call: AgentToolCall) => boolean | Promise<boolean>;
+    /** OpenAI model to use (default: 'gpt-4') */
+    model?: string;
+    /** System prompt */
+    system?: string;
+    temperature?: number;
+    /** Results longer than this are truncated before being sent to the model (default: 20000) */
+    maxResultChars?: number;
+    /** Cancels the run, it then rejects with an AbortError */
+    signal?: AbortSignal;
+}
+
+/**
+ * A call of a tool requested by the model
+ */
+export interface AgentToolCall {
+    id: string;
+    tool: string;
+    args: Record<string, unknown>;
+}
+
+/**
+ * A tool call made during a run
+ * 'denied' calls were not allowed or not confirmed, 'failed' calls threw (the error is sent to the model)
+ */
+export interface AgentToolCallResult extends AgentToolCall {
+    status: 'succeeded' | 'failed' | 'denied';
+    result?: unknown;
+    error?: string;
+}
+
+/**
+ * Outcome of an agent run
+ */
+export interface AgentResult {
+    /** Last answer of the model */
+    output: string | null;
+    /** 'stop' when the model answered without calling tools, 'max_steps' when it was still calling tools */
+    finishReason: string;
+    /** Number of model calls */
+    steps: number;
+    toolCalls: AgentToolCallResult[];
+    /** The conversation, to continue it or inspect it */
+    messages: ChatCompletionMessageParam[];
+    /** Summed over all model calls */
+    usage?: ChatUsage;
+}
+
+/**
+ * Index the tools by name, keeping the allowed ones
+ * @throws ValidationError if two tools have the same name or an allowed tool does not exist
+ */
+export function selectTools(tools: AgentTool[], allow?: string[]): Map<string, AgentTool> {
+    const byName = new Map<string, AgentTool>();
+    for (const tool of tools) {
+        if (byName.has(tool.name)) {
+            throw new ValidationError(`Duplicate tool name: ${tool.name}`, { integration: 'openai' });
+        }
+        byName.set(tool.name, tool);
+    }
+    if (!allow) {
+        return byName;
+    }
+
+    const allowed = new Map<string, AgentTool>();
+    for (const name of allow) {
+        const tool = byName.get(name);
+        if (!tool) {
+            throw new ValidationError(`Unknown tool in allowlist: ${name}`, { integration: 'openai' });
+        }
+        allowed.set(name, tool);
+    }
+    return allowed;
+}
+
+/**
+ * Definition of a tool in the format of the Chat Completions API
+ */
+export function toToolDefinition(tool: AgentTool): ChatCompletionTool {
+    return {
+        type: 'function',
+        function: { name: tool.name, description: tool.description, parameters: { ...tool.parameters } }
+    };
+}
+
+/**
+ * Run a tool call of the model, never throws: failures and denials are reported to the model
+ * @param call - Tool call of the assistant message
+ * @param tools - Allowed tools by name
+ * @param confirm - Confirmation hook of tools with side effects
+ */
+export async function executeToolCall(
+    call: ChatCompletionMessageToolCall,
+    tools: Map<string, AgentTool>,
+    confirm?: RunAgentOptions['confirm']
+): Promise<AgentToolCallResult> {
+    const base = { id: call.id, tool: call.function.name, args: {} };
+
+    let args: Record<string, unknown>;
+    try {
+        const parsed = JSON.parse(call.function.arguments || '{}');
+        if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+            throw new Error('arguments must be an object');
+        }
+        args = parsed;
+    } catch (error) {
+        return { ...base, status: 'failed', error: `Invalid arguments: ${(error as Error).message}` };
+    }
+
+    const request = { ...base, args };
+    const tool = tools.get(call.function.name);
+    if (!tool) {
+        return { ...request, status: 'denied', error: `Tool ${call.function.name} is not available` };
+    }
+    if (tool.sideEffects && !(confirm && await confirm(request))) {
+        return { ...request, status: 'denied', error: 'The user did not confirm this action' };
+    }
+
+    try {
+        return { ...request, status: 'succeeded', result: await tool.execute(args) };
+    } catch (error) {
+        return { ...request, status: 'failed', error: (error as Error).message || String(error) };
+    }
+}
+
+/**
+ * Message answering a tool call, with the result or error as JSON
+ * @param call - Outcome of the call
+ * @param maxChars - Length above which the content is truncated
+ */
+export function toToolMessage(call: AgentToolCallResult, maxChars: number): ChatCompletionMessageParam {
+    const value = call.status === 'succeeded' ? call.result ?? null : { error: call.error };
+    let content = JSON.stringify(value) ?? 'null';
+    if (content.length > maxChars) {
+        content = `${content.slice(0, maxChars)}... (truncated, ${content.length - maxChars} more characters)`;
+    }
+    return { role: 'tool', tool_call_id: call.id, content };
+}
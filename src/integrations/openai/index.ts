@@ -1 +1,7 @@
-export { OpenAIIntegration } from './openai';
\ No newline at end of file
+export { OpenAIIntegration } from './openai';
+export type { ChatMessage, ChatCompletionOptions, StreamChatCompletionOptions, OpenAIOptions } from './openai';
+export { ChatCompletionStream } from './stream';
+export type { ChatStreamDelta, ChatStreamResult, ChatUsage } from './stream';
+export { createMethodTools, param, toolSchema, gmailTools, googleSheetsTools, linkedInTools } from './tools';
+export type { AgentTool, JsonSchema, MethodKey, MethodToolBuilder, MethodToolSpec, ToolParam, TypedSchema } from './tools';
+export type { RunAgentOptions, AgentToolCall, AgentToolCallResult, AgentResult } from './agent';
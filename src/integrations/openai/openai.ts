@@ -1,4 +1,44 @@
 import OpenAI from 'openai';
+import type { ChatCompletionMessageParam } from 'openai/resources/chat/completions';
+import { ProviderError, ValidationError, toKuweError } from '../../errors';
+import { throwIfAborted } from '../../pagination';
+import { AgentResult, AgentToolCallResult, RunAgentOptions, executeToolCall, selectTools, toToolDefinition, toToolMessage } from './agent';
+import { ChatCompletionStream, ChatUsage } from './stream';
+
+/**
+ * A message of a chat conversation
+ */
+export interface ChatMessage {
+    role: 'system' | 'user' | 'assistant';
+    content: string;
+}
+
+/**
+ * Sampling options of a chat completion
+ */
+export interface ChatCompletionOptions {
+    temperature?: number;
+    max_tokens?: number;
+    top_p?: number;
+    frequency_penalty?: number;
+    presence_penalty?: number;
+}
+
+/**
+ * Options for streaming a chat completion
+ */
+export interface StreamChatCompletionOptions extends ChatCompletionOptions {
+    /** Cancels the request, iteration then throws an AbortError */
+    signal?: AbortSignal;
+}
+
+/**
+ * Options of the OpenAI client
+ */
+export interface OpenAIOptions {
+    /** API base URL, for OpenAI-compatible servers (default: OPENAI_BASE_URL or the OpenAI API) */
+    baseURL?: string;
+}
 
 /**
  * OpenAI Integration class
@@ -9,7 +49,7 @@ export class OpenAIIntegration {
     readonly name = 'openai';
     private client: OpenAI;
 
-    constructor(apiKey?: string) {
+    constructor(apiKey?: string, options: OpenAIOptions = {}) {
         // Use provided API key or fall back to environment variable
         const key = apiKey || process.env.OPENAI_API_KEY;
 
@@ -19,6 +59,7 @@ export class OpenAIIntegration {
 
         this.client = new OpenAI({
             apiKey: key,
+            baseURL: options.baseURL,
         });
     }
 
@@ -26,25 +67,20 @@ export class OpenAIIntegration {
      * Create a chat completion using the messages format
      * @param messages - Array of messages for the conversation
      * @param model - OpenAI model to use (default: 'gpt-4')
-     * @param options - Additional options for the completion
+     * @param options - Additional options for the completion (use streamChatCompletion to stream)
+     * @throws KuweError if the completion fails
      */
     public async createChatCompletion(
-        messages: Array<{ role: 'system' | 'user' | 'assistant'; content: string }>,
+        messages: ChatMessage[],
         model: string = 'gpt-4',
-        options?: {
-            temperature?: number;
-            max_tokens?: number;
-            top_p?: number;
-            frequency_penalty?: number;
-            presence_penalty?: number;
-            stream?: boolean;
-        }
+        options?: ChatCompletionOptions
     ) {
         try {
             const response = await this.client.chat.completions.create({
                 model,
                 messages,
                 ...options,
+                stream: false,
             });
 
             return {
@@ -53,21 +89,125 @@ export class OpenAIIntegration {
                 message: 'Chat completion created successfully'
             };
         } catch (error) {
-            return {
-                success: false,
-                error: error instanceof Error ? error.message : 'Unknown error',
-                message: 'Failed to create chat completion'
-            };
+            throw toKuweError(error, this.name);
         }
     }
 
+    /**
+     * Stream a chat completion
+     * The request starts when the stream is consumed: iterate it for text deltas,
+     * await `finalMessage()` for the whole answer and usage, or `pipeTo()` a Node stream
+     * @param messages - Array of messages for the conversation
+     * @param model - OpenAI model to use (default: 'gpt-4')
+     * @param options - Additional options for the completion and an abort signal
+     */
+    public streamChatCompletion(
+        messages: ChatMessage[],
+        model: string = 'gpt-4',
+        options: StreamChatCompletionOptions = {}
+    ): ChatCompletionStream {
+        const { signal, ...completionOptions } = options;
+
+        return new ChatCompletionStream(() => this.client.chat.completions.create({
+            model,
+            messages,
+            ...completionOptions,
+            stream: true,
+            stream_options: { include_usage: true },
+        }, { signal }), this.name, signal);
+    }
+
+    /**
+     * Run a prompt with tools: the model calls tools, their results are fed back, until it answers or maxSteps is reached
+     * Tools with side effects (sending, writing, posting) only run when `options.confirm` approves them
+     * @param prompt - Task for the model
+     * @param options - Tools, allowlist, confirmation hook and limits
+     * @throws ValidationError if the options are invalid
+     * @throws KuweError if a model call fails
+     */
+    public async runAgent(prompt: string, options: RunAgentOptions) {
+        const { maxSteps = 10, maxResultChars = 20000, model = 'gpt-4', signal } = options;
+        if (!Number.isInteger(maxSteps) || maxSteps < 1) {
+            throw new ValidationError('maxSteps must be a positive integer', { integration: this.name });
+        }
+
+        const tools = selectTools(options.tools, options.allow);
+        const definitions = [...tools.values()].map(toToolDefinition);
+        const messages: ChatCompletionMessageParam[] = [];
+        if (options.system) {
+            messages.push({ role: 'system', content: options.system });
+        }
+        messages.push({ role: 'user', content: prompt });
+
+        const toolCalls: AgentToolCallResult[] = [];
+        let usage: ChatUsage | undefined;
+        let output: string | null = null;
+        let finishReason = 'max_steps';
+        let steps = 0;
+
+        while (steps < maxSteps) {
+            throwIfAborted(signal);
+            steps++;
+
+            let completion: OpenAI.Chat.ChatCompletion;
+            try {
+                completion = await this.client.chat.completions.create({
+                    model,
+                    messages,
+                    temperature: options.temperature,
+                    ...(definitions.length > 0 ? { tools: definitions, tool_choice: 'auto' as const } : {}),
+                    stream: false,
+                }, { signal });
+            } catch (error) {
+                throwIfAborted(signal);
+                throw toKuweError(error, this.name);
+            }
+
+            if (completion.usage) {
+                usage = {
+                    promptTokens: (usage?.promptTokens ?? 0) + completion.usage.prompt_tokens,
+                    completionTokens: (usage?.completionTokens ?? 0) + completion.usage.completion_tokens,
+                    totalTokens: (usage?.totalTokens ?? 0) + completion.usage.total_tokens
+                };
+            }
+
+            const choice = completion.choices[0];
+            if (!choice) {
+                throw new ProviderError('Invalid response format from OpenAI', { integration: this.name });
+            }
+            const { content, tool_calls: calls } = choice.message;
+            messages.push({ role: 'assistant', content, ...(calls?.length ? { tool_calls: calls } : {}) });
+            output = content;
+
+            if (!calls?.length) {
+                finishReason = choice.finish_reason;
+                break;
+            }
+
+            // Every tool call must be answered before the next model call, including denied ones
+            for (const call of calls) {
+                throwIfAborted(signal);
+                const result = await executeToolCall(call, tools, options.confirm);
+                toolCalls.push(result);
+                messages.push(toToolMessage(result, maxResultChars));
+            }
+        }
+
+        const result: AgentResult = { output, finishReason, steps, toolCalls, messages, usage };
+        return {
+            success: true,
+            data: result,
+            message: 'Agent run completed successfully'
+        };
+    }
+
       /**
    * Simple text completion method
    * @param input - Text input for completion
    * @param model - OpenAI model to use (default: 'gpt-4')
    * @param options - Additional options
    * @returns The text response directly
-   * @throws Error if the completion fails
+   * @throws KuweError if the completion fails
    */
   public async complete(
     input: string,
@@ -78,7 +218,7 @@ export class OpenAIIntegration {
       system?: string;
     }
   ): Promise<string> {
-    const messages: Array<{ role: 'system' | 'user' | 'assistant'; content: string }> = [];
+    const messages: ChatMessage[] = [];
     
     if (options?.system) {
       messages.push({ role: 'system', content: options.system });
@@ -91,12 +231,8 @@ export class OpenAIIntegration {
       max_tokens: options?.max_tokens,
     });
 
-    if (!response.success) {
-      throw new Error(response.error || 'Failed to create completion');
-    }
-
     if (!response.data || !('choices' in response.data) || !response.data.choices[0]?.message?.content) {
-      throw new Error('Invalid response format from OpenAI');
+      throw new ProviderError('Invalid response format from OpenAI', { integration: this.name });
     }
 
     return response.data.choices[0].message.content;
@@ -0,0 +1,148 @@
+import { once } from 'events';
+import { Writable } from 'stream';
+import type { ChatCompletionChunk } from 'openai/resources/chat/completions';
+import { ProviderError, toKuweError } from '../../errors';
+import { throwIfAborted } from '../../pagination';
+
+/**
+ * A piece of the assistant's answer, in the order it was generated
+ */
+export interface ChatStreamDelta {
+    type: 'text';
+    text: string;
+}
+
+/**
+ * Token usage of a completion
+ */
+export interface ChatUsage {
+    promptTokens: number;
+    completionTokens: number;
+    totalTokens: number;
+}
+
+/**
+ * The complete answer of a streamed completion
+ */
+export interface ChatStreamResult {
+    id: string;
+    model: string;
+    message: { role: 'assistant'; content: string };
+    /** 'stop', 'length', 'content_filter'... */
+    finishReason: string | null;
+    /** Reported by the API at the end of the stream */
+    usage?: ChatUsage;
+}
+
+/**
+ * Streamed chat completion
+ * Iterate it for text deltas as they arrive, or await `finalMessage()` for the aggregated answer.
+ * The stream can only be consumed once.
+ */
+export class ChatCompletionStream implements AsyncIterable<ChatStreamDelta> {
+    private consumed = false;
+    private readonly result: Promise<ChatStreamResult>;
+    private settle!: { resolve: (result: ChatStreamResult) => void; reject: (error: unknown) => void };
+
+    /**
+     * @param open - Starts the request, called on first consumption
+     * @param integration - Integration name used in errors
+     * @param signal - Aborts the request
+     */
+    constructor(
+        private readonly open: () => Promise<AsyncIterable<ChatCompletionChunk>>,
+        private readonly integration: string,
+        private readonly signal?: AbortSignal
+    ) {
+        this.result = new Promise((resolve, reject) => {
+            this.settle = { resolve, reject };
+        });
+        // Failures are thrown to the consumer, finalMessage() rejects only when awaited
+        this.result.catch(() => undefined);
+    }
+
+    public async *[Symbol.asyncIterator](): AsyncGenerator<ChatStreamDelta> {
+        if (this.consumed) {
+            throw new ProviderError('The stream has already been consumed', { integration: this.integration });
+        }
+        this.consumed = true;
+
+        let id = '';
+        let model = '';
+        let content = '';
+        let finishReason: string | null = null;
+        let usage: ChatUsage | undefined;
+        let completed = false;
+
+        try {
+            throwIfAborted(this.signal);
+            for await (const chunk of await this.open()) {
+                id = id || chunk.id;
+                model = model || chunk.model;
+                if (chunk.usage) {
+                    usage = {
+                        promptTokens: chunk.usage.prompt_tokens,
+                        completionTokens: chunk.usage.completion_tokens,
+                        totalTokens: chunk.usage.total_tokens
+                    };
+                }
+
+                const choice = chunk.choices[0];
+                finishReason = choice?.finish_reason ?? finishReason;
+                const text = choice?.delta?.content;
+                if (text) {
+                    content += text;
+                    yield { type: 'text', text };
+                }
+            }
+            // The client ends the iteration quietly when aborted
+            throwIfAborted(this.signal);
+            completed = true;
+        } catch (error) {
+            const failure = this.signal?.aborted
+                ? Object.assign(new Error('The operation was aborted'), { name: 'AbortError' })
+                : toKuweError(error, this.integration);
+            this.settle.reject(failure);
+            throw failure;
+        } finally {
+            if (completed) {
+                this.settle.resolve({ id, model, message: { role: 'assistant', content }, finishReason, usage });
+            } else {
+                // The consumer stopped early, the request is cancelled by the client
+                this.settle.reject(new ProviderError('The stream was closed before the completion finished', { integration: this.integration }));
+            }
+        }
+    }
+
+    /**
+     * Get the aggregated answer and usage, consuming the stream if it is not being iterated
+     * @throws KuweError if the completion fails or the stream was closed early
+     */
+    public async finalMessage(): Promise<ChatStreamResult> {
+        if (!this.consumed) {
+            const deltas = this[Symbol.asyncIterator]();
+            while (!(await deltas.next()).done) {
+                // Drain the stream
+            }
+        }
+        return this.result;
+    }
+
+    /**
+     * Write the text to a Node stream as it arrives, respecting backpressure
+     * @param destination - Stream to write to (e.g. process.stdout or an HTTP response)
+     * @param options.end - End the destination when the completion finishes (default: true)
+     * @returns The aggregated answer and usage
+     */
+    public async pipeTo(destination: Writable, options: { end?: boolean } = {}): Promise<ChatStreamResult> {
+        for await (const delta of this) {
+            if (!destination.write(delta.text)) {
+                await once(destination, 'drain');
+            }
+        }
+        if (options.end ?? true) {
+            destination.end();
+        }
+        return this.result;
+    }
+}
@@ -0,0 +1,322 @@
+import { ValidationError } from '../../errors';
+import type { GmailIntegration } from '../google-mail/google-mail';
+import type { GoogleSheetsIntegration } from '../google-sheets/google-sheets';
+import type { LinkedInIntegration } from '../linkedin/linkedin';
+
+/**
+ * JSON Schema describing tool arguments
+ */
+export interface JsonSchema {
+    type?: 'object' | 'array' | 'string' | 'number' | 'integer' | 'boolean' | 'null' | Array<string>;
+    description?: string;
+    properties?: Record<string, JsonSchema>;
+    required?: string[];
+    items?: JsonSchema;
+    enum?: Array<string | number>;
+    anyOf?: JsonSchema[];
+    additionalProperties?: boolean | JsonSchema;
+}
+
+/**
+ * A function the model can call
+ */
+export interface AgentTool {
+    /** Name shown to the model, letters, digits, _ and - only */
+    name: string;
+    description: string;
+    /** Object schema of the arguments */
+    parameters: JsonSchema;
+    /** Whether calling the tool changes something (sends, writes, posts, deletes), such calls need confirmation */
+    sideEffects: boolean;
+    execute(args: Record<string, unknown>): Promise<unknown>;
+}
+
+/**
+ * JSON Schema of an argument, typed with the value it describes
+ * Tool schemas are built from these descriptors, and the compiler checks their types against the method a tool calls
+ */
+export interface TypedSchema<V = unknown, Optional extends boolean = boolean> {
+    schema: JsonSchema;
+    optional: Optional;
+    /** Never set, carries the type of the described value */
+    readonly value?: V;
+}
+
+/**
+ * An argument of a method tool: its name shown to the model and its schema
+ */
+export type ToolParam<V = unknown, Optional extends boolean = boolean> = TypedSchema<V, Optional> & { name: string };
+
+/** Value described by a schema, undefined when optional */
+type SchemaValue<S> = S extends TypedSchema<infer V, infer Optional> ? (Optional extends true ? V | undefined : V) : never;
+
+type ObjectValue<P extends Record<string, TypedSchema>> =
+    { [K in keyof P as P[K] extends TypedSchema<unknown, true> ? never : K]: SchemaValue<P[K]> } &
+    { [K in keyof P as P[K] extends TypedSchema<unknown, true> ? K : never]?: SchemaValue<P[K]> };
+
+type ParamValues<P extends readonly ToolParam[]> = { -readonly [I in keyof P]: SchemaValue<P[I]> };
+
+type AnyMethod = (...args: never[]) => unknown;
+
+/** Names of the methods of T */
+export type MethodKey<T> = { [K in keyof T]: T[K] extends AnyMethod ? K : never }[keyof T] & string;
+
+/** The `data` a method resolves with, or its plain result */
+type ResponseData<F> = F extends (...args: never[]) => Promise<infer R> ? (R extends { data: infer D } ? D : R) : never;
+
+function typed<V, Optional extends boolean = false>(schema: JsonSchema, description?: string, optional?: Optional): TypedSchema<V, Optional> {
+    return {
+        schema: description !== undefined ? { ...schema, description } : schema,
+        optional: (optional ?? false) as Optional
+    };
+}
+
+/**
+ * Builders of typed argument schemas, objects reject undeclared properties
+ */
+export const toolSchema = {
+    string: (description?: string) => typed<string>({ type: 'string' }, description),
+    integer: (description?: string) => typed<number>({ type: 'integer' }, description),
+    number: (description?: string) => typed<number>({ type: 'number' }, description),
+    boolean: (description?: string) => typed<boolean>({ type: 'boolean' }, description),
+    /** A cell value: string, number, boolean or null */
+    scalar: (description?: string) => typed<string | number | boolean | null>({ type: ['string', 'number', 'boolean', 'null'] }, description),
+    enum: <const E extends string>(values: readonly E[], description?: string) => typed<E>({ type: 'string', enum: [...values] }, description),
+    array: <S extends TypedSchema>(items: S, description?: string) => typed<Array<SchemaValue<S>>>({ type: 'array', items: items.schema }, description),
+    anyOf: <S extends TypedSchema[]>(options: [...S], description?: string) =>
+        typed<SchemaValue<S[number]>>({ anyOf: options.map(option => option.schema) }, description),
+    object: <P extends Record<string, TypedSchema>>(properties: P, description?: string) => typed<ObjectValue<P>>({
+        type: 'object',
+        properties: Object.keys(properties).reduce<Record<string, JsonSchema>>((schemas, name) => ({ ...schemas, [name]: properties[name].schema }), {}),
+        required: Object.keys(properties).filter(name => !properties[name].optional),
+        additionalProperties: false
+    }, description),
+    /** Let the model omit the value */
+    optional: <S extends TypedSchema>(schema: S): TypedSchema<SchemaValue<S>, true> => ({ schema: schema.schema, optional: true })
+};
+
+/**
+ * Name an argument of a method tool
+ */
+export function param<S extends TypedSchema>(name: string, schema: S): S & { name: string } {
+    return { ...schema, name };
+}
+
+/**
+ * Describes how to expose a method as a tool
+ */
+export interface MethodToolSpec<T, K extends MethodKey<T>, P extends readonly ToolParam[]> {
+    method: K;
+    description: string;
+    /** The method's arguments in order, their types must match its parameters. Only the properties they declare are passed on */
+    params?: readonly [...P];
+    sideEffects?: boolean;
+    /** Reduce the method's data before it is sent to the model */
+    select?: (data: ResponseData<T[K]>) => unknown;
+}
+
+/** Rejects params whose values the method does not accept */
+type AcceptedBy<F, P extends readonly ToolParam[]> = F extends (...args: ParamValues<P>) => unknown
+    ? unknown
+    : { params: 'The params do not match the parameters of the method' };
+
+/**
+ * Creates a tool calling a method of the target
+ */
+export type MethodToolBuilder<T> = <K extends MethodKey<T>, P extends readonly ToolParam[] = []>(
+    spec: MethodToolSpec<T, K, P> & AcceptedBy<T[K], P>
+) => AgentTool;
+
+/**
+ * Create tools calling methods of an integration
+ * Tools are named `${prefix}_${method}`, their result is the `data` of the method's response.
+ * Argument schemas are generated from typed descriptors (`param()` and `toolSchema`), checked against the method signatures
+ * @param target - Integration instance
+ * @param prefix - Tool name prefix, e.g. 'gmail'
+ * @param define - Returns the tools, built with the `tool` function it receives
+ * @throws ValidationError if a spec names something that is not a method of the target
+ */
+export function createMethodTools<T>(target: T, prefix: string, define: (tool: MethodToolBuilder<T>) => AgentTool[]): AgentTool[] {
+    const tool: MethodToolBuilder<T> = spec => {
+        const params: readonly ToolParam[] = spec.params || [];
+        const method = target[spec.method] as unknown;
+        if (typeof method !== 'function') {
+            throw new ValidationError(`${spec.method} is not a method of ${prefix}`, { integration: 'openai' });
+        }
+
+        return {
+            name: `${prefix}_${spec.method}`,
+            description: spec.description,
+            parameters: toolSchema.object(params.reduce<Record<string, TypedSchema>>((properties, entry) => ({ ...properties, [entry.name]: entry }), {})).schema,
+            sideEffects: spec.sideEffects ?? false,
+            execute: async args => {
+                // Models send null for omitted optional arguments, let the method defaults apply
+                const response = await method.apply(target, params.map(entry => pickDeclared(args[entry.name] ?? undefined, entry.schema)));
+                const data = response && typeof response === 'object' && 'data' in response ? response.data : response;
+                return spec.select ? spec.select(data as ResponseData<T[typeof spec.method]>) : data;
+            }
+        };
+    };
+
+    return define(tool);
+}
+
+/**
+ * Keep the properties of a value its schema declares, so the model cannot pass options that are not offered to it
+ * (e.g. the bcc or headers of an email), dropping the null ones like omitted arguments
+ */
+function pickDeclared(value: unknown, schema: JsonSchema): unknown {
+    if (Array.isArray(value)) {
+        return schema.items ? value.map(item => pickDeclared(item, schema.items!)) : value;
+    }
+    if (!value || typeof value !== 'object' || !schema.properties || schema.additionalProperties !== false) {
+        return value;
+    }
+
+    const picked: Record<string, unknown> = {};
+    for (const [name, property] of Object.entries(schema.properties)) {
+        const item = (value as Record<string, unknown>)[name];
+        if (item !== undefined && item !== null) {
+            picked[name] = pickDeclared(item, property);
+        }
+    }
+    return picked;
+}
+
+const { string, integer, boolean, scalar, array, anyOf, object, optional } = toolSchema;
+const stringOrList = (description: string) => anyOf([string(), array(string())], description);
+const cellRows = array(array(scalar()), 'Rows of cell values');
+
+/**
+ * Tools for reading, searching and sending Gmail messages
+ */
+export function gmailTools(gmail: GmailIntegration): AgentTool[] {
+    // Only the basic fields are offered, the model cannot add recipients in bcc, headers or attachments
+    const email = (fields: { cc?: boolean }) => object({
+        to: stringOrList('Recipient address(es)'),
+        subject: string('Subject'),
+        text: string('Plain text body'),
+        ...(fields.cc ? { cc: optional(stringOrList('CC address(es)')) } : {})
+    });
+
+    return createMethodTools(gmail, 'gmail', tool => [
+        tool({
+            method: 'searchEmails',
+            description: 'Search emails with Gmail search syntax (e.g. "is:unread newer_than:1d"), returns message IDs',
+            params: [
+                param('query', string('Gmail search query')),
+                param('maxResults', optional(integer('Maximum number of results (default: 10)')))
+            ]
+        }),
+        tool({
+            method: 'getParsedEmail',
+            description: 'Read an email: sender, recipients, subject, date, text body and attachment names',
+            params: [param('messageId', string('Message ID'))],
+            select: email => ({
+                id: email.id,
+                threadId: email.threadId,
+                labelIds: email.labelIds,
+                from: email.from,
+                to: email.to,
+                cc: email.cc,
+                subject: email.subject,
+                date: email.date,
+                text: email.text ?? email.snippet,
+                attachments: email.attachments.map(attachment => attachment.filename)
+            })
+        }),
+        tool({
+            method: 'getLabels',
+            description: 'List the labels of the mailbox'
+        }),
+        tool({
+            method: 'sendEmail',
+            description: 'Send an email',
+            params: [param('email', email({ cc: true }))],
+            sideEffects: true
+        }),
+        tool({
+            method: 'createDraft',
+            description: 'Save an email as a draft without sending it',
+            params: [param('email', email({}))],
+            sideEffects: true
+        }),
+        tool({
+            method: 'markEmailsAsRead',
+            description: 'Mark emails as read, or as unread',
+            params: [
+                param('messageIds', array(string(), 'Message IDs')),
+                param('markAsRead', optional(boolean('false to mark as unread (default: true)')))
+            ],
+            sideEffects: true
+        })
+    ]);
+}
+
+/**
+ * Tools for reading and writing Google Sheets
+ */
+export function googleSheetsTools(sheets: GoogleSheetsIntegration): AgentTool[] {
+    const spreadsheetId = param('spreadsheetId', string('Spreadsheet ID (from its URL)'));
+    const range = param('range', string('A1 range, e.g. "Sheet1!A1:C10" or "Sheet1"'));
+
+    return createMethodTools(sheets, 'sheets', tool => [
+        tool({
+            method: 'listSheets',
+            description: 'List the sheets (tabs) of a spreadsheet',
+            params: [spreadsheetId]
+        }),
+        tool({
+            method: 'readRange',
+            description: 'Read the values of a range',
+            params: [spreadsheetId, range]
+        }),
+        tool({
+            method: 'appendValues',
+            description: 'Append rows after the last row of a table',
+            params: [spreadsheetId, range, param('values', cellRows)],
+            sideEffects: true
+        }),
+        tool({
+            method: 'writeRange',
+            description: 'Overwrite the values of a range',
+            params: [spreadsheetId, range, param('values', cellRows)],
+            sideEffects: true
+        })
+    ]);
+}
+
+/**
+ * Tools for reading the profile and posts of a LinkedIn member, and posting
+ */
+export function linkedInTools(linkedin: LinkedInIntegration): AgentTool[] {
+    return createMethodTools(linkedin, 'linkedin', tool => [
+        tool({
+            method: 'getProfile',
+            description: 'Get the name, email and URN of the connected LinkedIn member'
+        }),
+        tool({
+            method: 'listMyPosts',
+            description: 'List the most recent posts of the member',
+            params: [
+                param('count', optional(integer('Number of posts (default: 10)'))),
+                param('start', optional(integer('Offset, for the next page (default: 0)')))
+            ]
+        }),
+        tool({
+            method: 'createTextPost',
+            description: 'Publish a text post on LinkedIn',
+            params: [
+                param('text', string('Post text, #words become hashtags')),
+                param('visibility', optional(toolSchema.enum(['PUBLIC', 'CONNECTIONS'], 'Who can see the post (default: PUBLIC)')))
+            ],
+            sideEffects: true
+        }),
+        tool({
+            method: 'deletePost',
+            description: 'Delete a post',
+            params: [param('postId', string('Post URN'))],
+            sideEffects: true
+        })
+    ]);
+}
@@ -0,0 +1,58 @@
+import type { KuweTransport } from '../transport';
+import type { Integration, IntegrationOptions } from './base';
+import { LinkedInIntegration } from './linkedin/linkedin';
+import { GoogleSheetsIntegration } from './google-sheets/google-sheets';
+import { GmailIntegration } from './google-mail/google-mail';
+import { OpenAIIntegration } from './openai/openai';
+
+/**
+ * Everything an integration needs to be instantiated
+ */
+export interface IntegrationContext {
+    transport: KuweTransport;
+    connectionId: string;
+    options: IntegrationOptions;
+}
+
+/**
+ * Constructor signature shared by all Integration subclasses
+ */
+export type IntegrationConstructor<T extends Integration = Integration> = new (
+    transport: KuweTransport,
+    connectionId: string,
+    options?: IntegrationOptions
+) => T;
+
+export type IntegrationFactory<T = unknown> = (context: IntegrationContext) => T;
+
+/**
+ * Map of registered integration names to their types
+ * Augment it to get typed access to your own integrations:
+ *
+ * declare module '@kuwe-ai/node-sdk' {
+ *     interface IntegrationRegistry { hubspot: HubSpotIntegration }
+ * }
+ */
+export interface IntegrationRegistry {
+    linkedin: LinkedInIntegration;
+    'google-sheet': GoogleSheetsIntegration;
+    'google-mail': GmailIntegration;
+    openai: OpenAIIntegration;
+}
+
+/**
+ * Create a factory for an Integration subclass
+ */
+export function integrationFactory<T extends Integration>(integration: IntegrationConstructor<T>): IntegrationFactory<T> {
+    return ({ transport, connectionId, options }) => new integration(transport, connectionId, options);
+}
+
+/**
+ * Factories for the integrations shipped with the SDK
+ */
+export const builtInIntegrations: { [K in keyof IntegrationRegistry]: IntegrationFactory<IntegrationRegistry[K]> } = {
+    linkedin: integrationFactory(LinkedInIntegration),
+    'google-sheet': integrationFactory(GoogleSheetsIntegration),
+    'google-mail': integrationFactory(GmailIntegration),
+    openai: () => new OpenAIIntegration()
+};
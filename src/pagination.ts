@@ -0,0 +1,83 @@
+/**
+ * Options shared by all iterating methods
+ */
+export interface IterateOptions {
+    /** Maximum number of items to yield across all pages */
+    limit?: number;
+    /** Number of items to request per page */
+    pageSize?: number;
+    /** Stops the iteration (throws an AbortError) when aborted */
+    signal?: AbortSignal;
+}
+
+/**
+ * A page of items and the token of the next page, if any
+ */
+export interface Page<T> {
+    items: T[];
+    nextPageToken?: string | null;
+}
+
+/**
+ * Throw an AbortError if the signal has been aborted
+ */
+export function throwIfAborted(signal?: AbortSignal): void {
+    if (signal?.aborted) {
+        throw Object.assign(new Error('The operation was aborted'), { name: 'AbortError' });
+    }
+}
+
+/**
+ * Lazily iterate over the items of a paginated API, fetching pages on demand
+ * @param fetchPage - Fetches the page for the given token (undefined for the first page)
+ * @param options - Limit and abort signal
+ */
+export async function* paginate<T>(
+    fetchPage: (pageToken: string | undefined) => Promise<Page<T>>,
+    options: Pick<IterateOptions, 'limit' | 'signal'> = {}
+): AsyncGenerator<T> {
+    let pageToken: string | undefined;
+    let count = 0;
+
+    do {
+        throwIfAborted(options.signal);
+        const page = await fetchPage(pageToken);
+
+        for (const item of page.items) {
+            if (options.limit !== undefined && count >= options.limit) {
+                return;
+            }
+            throwIfAborted(options.signal);
+            count++;
+            yield item;
+        }
+
+        pageToken = page.nextPageToken || undefined;
+    } while (pageToken && (options.limit === undefined || count < options.limit));
+}
+
+/**
+ * Map the items of an async iterable with at most `concurrency` operations in flight, preserving order
+ */
+export async function* mapConcurrent<T, R>(
+    source: AsyncIterable<T>,
+    mapper: (item: T) => Promise<R>,
+    concurrency: number
+): AsyncGenerator<R> {
+    const pending: Array<Promise<R>> = [];
+
+    for await (const item of source) {
+        const result = mapper(item);
+        // Rejections are surfaced when the result is awaited in order
+        result.catch(() => undefined);
+        pending.push(result);
+
+        if (pending.length >= Math.max(1, concurrency)) {
+            yield await pending.shift()!;
+        }
+    }
+
+    while (pending.length > 0) {
+        yield await pending.shift()!;
+    }
+}
@@ -0,0 +1,132 @@
+import { KuweError, toKuweError } from './errors';
+
+/**
+ * Retry policy applied to provider requests
+ */
+export interface RetryPolicy {
+    /** Total number of attempts, including the first one (default: 3, use 1 to disable retries) */
+    maxAttempts?: number;
+    /** Delay before the first retry in milliseconds (default: 500) */
+    initialDelayMs?: number;
+    /** Upper bound for a single delay in milliseconds (default: 30000) */
+    maxDelayMs?: number;
+    /** Factor applied to the delay after each attempt (default: 2) */
+    backoffMultiplier?: number;
+    /** Randomize delays to avoid synchronized retries (default: true) */
+    jitter?: boolean;
+    /** Wait for the delay requested by the provider's Retry-After header (default: true) */
+    respectRetryAfter?: boolean;
+    /** Also retry non-idempotent methods such as POST and PATCH (default: false) */
+    retryNonIdempotent?: boolean;
+    /** Called before waiting for each retry */
+    onRetry?: (attempt: RetryAttempt) => void;
+}
+
+/**
+ * Information reported for each retry
+ */
+export interface RetryAttempt {
+    integration: string;
+    method: string;
+    /** Number of the attempt that just failed (1-based) */
+    attempt: number;
+    /** Delay before the next attempt in milliseconds */
+    delayMs: number;
+    error: KuweError;
+}
+
+export const DEFAULT_RETRY_POLICY: Required<Omit<RetryPolicy, 'onRetry'>> = {
+    maxAttempts: 3,
+    initialDelayMs: 500,
+    maxDelayMs: 30000,
+    backoffMultiplier: 2,
+    jitter: true,
+    respectRetryAfter: true,
+    retryNonIdempotent: false
+};
+
+const IDEMPOTENT_METHODS = ['GET', 'HEAD', 'OPTIONS', 'PUT', 'DELETE'];
+
+/**
+ * Whether an HTTP method can safely be repeated
+ */
+export function isIdempotent(method: string): boolean {
+    return IDEMPOTENT_METHODS.includes(method.toUpperCase());
+}
+
+/**
+ * Merge retry policies, later policies taking precedence
+ */
+export function mergeRetryPolicies(...policies: Array<RetryPolicy | undefined>): RetryPolicy {
+    return policies.reduce<RetryPolicy>((merged, policy) => ({ ...merged, ...policy }), {});
+}
+
+/**
+ * Compute the delay before the next attempt, or undefined if the request should not be retried
+ * @param policy - Retry policy to apply
+ * @param attempt - Number of the attempt that just failed (1-based)
+ * @param method - HTTP method of the request
+ * @param error - Error of the failed attempt
+ */
+export function getRetryDelay(policy: RetryPolicy, attempt: number, method: string, error: KuweError): number | undefined {
+    const resolved = { ...DEFAULT_RETRY_POLICY, ...policy };
+
+    if (!error.retryable || attempt >= resolved.maxAttempts) {
+        return undefined;
+    }
+    if (!resolved.retryNonIdempotent && !isIdempotent(method)) {
+        return undefined;
+    }
+
+    if (resolved.respectRetryAfter && error.retryAfterMs !== undefined) {
+        // Don't wait longer than allowed when the provider asks for it, give up instead
+        return error.retryAfterMs <= resolved.maxDelayMs ? error.retryAfterMs : undefined;
+    }
+
+    const backoff = Math.min(
+        resolved.initialDelayMs * Math.pow(resolved.backoffMultiplier, attempt - 1),
+        resolved.maxDelayMs
+    );
+
+    return resolved.jitter ? Math.round(backoff / 2 + Math.random() * backoff / 2) : backoff;
+}
+
+/**
+ * Run an operation, retrying it according to the policy
+ * Failures are converted into KuweErrors
+ * @param operation - Operation to run, receives the attempt number (1-based)
+ * @param context - Policy, integration name and HTTP method of the request
+ */
+export async function withRetry<T>(
+    operation: (attempt: number) => Promise<T>,
+    context: { policy: RetryPolicy; integration: string; method: string }
+): Promise<T> {
+    for (let attempt = 1; ; attempt++) {
+        try {
+            return await operation(attempt);
+        } catch (err) {
+            const error = toKuweError(err, context.integration);
+            const delayMs = getRetryDelay(context.policy, attempt, context.method, error);
+
+            if (delayMs === undefined) {
+                throw error;
+            }
+
+            context.policy.onRetry?.({
+                integration: context.integration,
+                method: context.method.toUpperCase(),
+                attempt,
+                delayMs,
+                error
+            });
+            await sleep(delayMs);
+        }
+    }
+}
+
+/**
+ * Wait for a number of milliseconds
+ */
+export function sleep(ms: number): Promise<void> {
+    return new Promise(resolve => setTimeout(resolve, ms));
+}
@@ -0,0 +1,83 @@
+/**
+ * Source of time and timers for the scheduler
+ * Inject a ManualClock in tests to control time
+ */
+export interface Clock {
+    now(): number;
+    setTimer(callback: () => void, delayMs: number): unknown;
+    clearTimer(timer: unknown): void;
+}
+
+/**
+ * Clock backed by Date.now and setTimeout
+ */
+export const systemClock: Clock = {
+    now: () => Date.now(),
+    setTimer: (callback, delayMs) => setTimeout(callback, delayMs),
+    clearTimer: timer => clearTimeout(timer as ReturnType<typeof setTimeout>)
+};
+
+interface ManualTimer {
+    id: number;
+    at: number;
+    callback: () => void;
+}
+
+/**
+ * Clock that only moves when told to, for tests
+ */
+export class ManualClock implements Clock {
+    private time: number;
+    private timers: ManualTimer[] = [];
+    private nextTimerId = 1;
+
+    /**
+     * @param start - Initial time (default: 0)
+     */
+    constructor(start: Date | number = 0) {
+        this.time = typeof start === 'number' ? start : start.getTime();
+    }
+
+    public now(): number {
+        return this.time;
+    }
+
+    public setTimer(callback: () => void, delayMs: number): unknown {
+        const timer = { id: this.nextTimerId++, at: this.time + Math.max(0, delayMs), callback };
+        this.timers.push(timer);
+        return timer.id;
+    }
+
+    public clearTimer(timer: unknown): void {
+        this.timers = this.timers.filter(pending => pending.id !== timer);
+    }
+
+    /**
+     * Move time forward, firing the timers that fall due in order
+     */
+    public advance(ms: number): void {
+        const target = this.time + ms;
+
+        for (;;) {
+            const due = this.timers
+                .filter(timer => timer.at <= target)
+                .sort((a, b) => a.at - b.at || a.id - b.id)[0];
+            if (!due) {
+                break;
+            }
+
+            this.timers = this.timers.filter(timer => timer !== due);
+            this.time = Math.max(this.time, due.at);
+            due.callback();
+        }
+
+        this.time = target;
+    }
+
+    /**
+     * Number of timers waiting to fire
+     */
+    public get pendingTimers(): number {
+        return this.timers.length;
+    }
+}
@@ -0,0 +1,6 @@
+export { Scheduler, DEFAULT_JOB_RETRY_POLICY } from './scheduler';
+export type { SchedulerOptions, ScheduleOptions, JobHandler } from './scheduler';
+export { InMemoryJobStore, FileJobStore, DEFAULT_JOB_FILE } from './store';
+export type { JobStore, ScheduledJob, JobStatus, JobError, JobFilter } from './store';
+export { ManualClock, systemClock } from './clock';
+export type { Clock } from './clock';
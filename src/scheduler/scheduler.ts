@@ -0,0 +1,376 @@
+import { randomBytes } from 'crypto';
+import { KuweError, NotFoundError, RateLimitError, ValidationError, toKuweError } from '../errors';
+import { RetryPolicy, getRetryDelay } from '../retry';
+import { Clock, systemClock } from './clock';
+import { FileJobStore, JobFilter, JobStore, ScheduledJob } from './store';
+
+/**
+ * Runs a job, the returned value is stored as the job result
+ * Throw a KuweError to control retries (retryable, retryAfterMs)
+ */
+export type JobHandler<TPayload = unknown> = (payload: TPayload, job: ScheduledJob<TPayload>) => Promise<unknown>;
+
+/**
+ * Configuration options for Scheduler constructor
+ */
+export interface SchedulerOptions {
+    /** Where jobs are kept (default: the FileJobStore of .kuwe/jobs.json, shared by the schedulers of the process) */
+    store?: JobStore;
+    clock?: Clock;
+    /** Retries of failed jobs, merged over DEFAULT_JOB_RETRY_POLICY */
+    retry?: RetryPolicy;
+    /** Longest wait between checks for due jobs when started, picks up jobs added by other processes (default: 60000) */
+    pollIntervalMs?: number;
+    /**
+     * How long a running job stays owned by this scheduler without being renewed (default: 300000)
+     * The lease is renewed while the job runs, a job whose lease expired was interrupted
+     */
+    leaseMs?: number;
+    /** Called after each job succeeds or fails for good */
+    onJobFinished?: (job: ScheduledJob) => void;
+    /** Called when the background loop fails, e.g. because the store is unavailable */
+    onError?: (error: unknown) => void;
+}
+
+/**
+ * Options for scheduling a job
+ */
+export interface ScheduleOptions {
+    /** Job ID, to make scheduling idempotent (default: random) */
+    id?: string;
+}
+
+/**
+ * Retries of failed jobs: jobs publish or send, so only failures the provider did not process (rate limits,
+ * refused connections) are retried, with a long backoff honoring Retry-After.
+ * Set `retryNonIdempotent` to also retry server errors and timeouts, after which a post may already be published
+ */
+export const DEFAULT_JOB_RETRY_POLICY: RetryPolicy = {
+    maxAttempts: 3,
+    initialDelayMs: 60 * 1000,
+    maxDelayMs: 60 * 60 * 1000,
+    backoffMultiplier: 2,
+    jitter: false,
+    respectRetryAfter: true,
+    retryNonIdempotent: false
+};
+
+const INTEGRATION = 'scheduler';
+
+const DEFAULT_LEASE_MS = 5 * 60 * 1000;
+
+/**
+ * Runs jobs at a given time, keeping them in a pluggable store
+ * Call `start()` to run due jobs in the background, or `runDue()` from your own cron
+ */
+export class Scheduler {
+    /** Owner recorded on the jobs this scheduler runs */
+    readonly id = randomBytes(8).toString('hex');
+    private readonly store: JobStore;
+    private readonly clock: Clock;
+    private readonly retry: RetryPolicy;
+    private handlers = new Map<string, JobHandler>();
+    private timer?: unknown;
+    private generation = 0;
+    private started = false;
+    private queue: Promise<unknown> = Promise.resolve();
+
+    constructor(private readonly options: SchedulerOptions = {}) {
+        this.store = options.store || FileJobStore.forFile();
+        this.clock = options.clock || systemClock;
+        this.retry = { ...DEFAULT_JOB_RETRY_POLICY, ...options.retry };
+    }
+
+    /**
+     * Register the handler of a job type
+     * @param type - Job type, e.g. 'linkedin.createPost'
+     * @param handler - Runs the jobs of this type
+     */
+    public register<TPayload = unknown>(type: string, handler: JobHandler<TPayload>): this {
+        this.handlers.set(type, handler as JobHandler);
+        return this;
+    }
+
+    /**
+     * Whether a handler is registered for a job type
+     */
+    public hasHandler(type: string): boolean {
+        return this.handlers.has(type);
+    }
+
+    /**
+     * Schedule a job
+     * @param type - Job type, its handler must be registered by the process running the job
+     * @param payload - JSON-serializable input of the handler
+     * @param runAt - When to run the job (a past date runs it on the next check)
+     * @throws ValidationError if the date is invalid or a job with the same ID exists
+     */
+    public async schedule<TPayload>(
+        type: string,
+        payload: TPayload,
+        runAt: Date | number,
+        options: ScheduleOptions = {}
+    ): Promise<ScheduledJob<TPayload>> {
+        const id = options.id || randomBytes(12).toString('hex');
+        if (await this.store.get(id)) {
+            throw new ValidationError(`Job ${id} already exists`, { integration: INTEGRATION });
+        }
+
+        const now = this.clock.now();
+        const job: ScheduledJob<TPayload> = {
+            id,
+            type,
+            payload,
+            status: 'pending',
+            runAt: toTime(runAt),
+            attempts: 0,
+            createdAt: now,
+            updatedAt: now
+        };
+
+        await this.store.save(job);
+        this.arm();
+        return job;
+    }
+
+    /**
+     * Get a job
+     * @throws NotFoundError if the job does not exist
+     */
+    public async get(id: string): Promise<ScheduledJob> {
+        const job = await this.store.get(id);
+        if (!job) {
+            throw new NotFoundError(`Job ${id} not found`, { integration: INTEGRATION, status: 404 });
+        }
+        return job;
+    }
+
+    /**
+     * List jobs, ordered by the time they run
+     * @param filter - Status and type of the jobs to list
+     */
+    public async list(filter?: JobFilter): Promise<ScheduledJob[]> {
+        return this.store.list(filter);
+    }
+
+    /**
+     * Cancel a pending job
+     * @throws ValidationError if the job already ran or is running
+     */
+    public async cancel(id: string): Promise<ScheduledJob> {
+        const job = await this.get(id);
+        if (job.status !== 'pending') {
+            throw new ValidationError(`Job ${id} is ${job.status} and cannot be cancelled`, { integration: INTEGRATION });
+        }
+
+        return this.update(job, { status: 'cancelled' });
+    }
+
+    /**
+     * Move a pending job to another time, or run a failed or cancelled job again
+     * @throws ValidationError if the job is running or succeeded, or the date is invalid
+     */
+    public async reschedule(id: string, runAt: Date | number): Promise<ScheduledJob> {
+        const job = await this.get(id);
+        if (job.status === 'running' || job.status === 'succeeded') {
+            throw new ValidationError(`Job ${id} is ${job.status} and cannot be rescheduled`, { integration: INTEGRATION });
+        }
+
+        const updated = await this.update(job, {
+            status: 'pending',
+            runAt: toTime(runAt),
+            attempts: job.status === 'pending' ? job.attempts : 0
+        });
+        this.arm();
+        return updated;
+    }
+
+    /**
+     * Run the pending jobs that are due, one at a time
+     * Calls are queued, so a job never runs twice at once from the same scheduler
+     * @returns The jobs that ran, with their new status
+     */
+    public runDue(): Promise<ScheduledJob[]> {
+        const run = this.queue.then(() => this.runDueJobs());
+        this.queue = run.catch(() => undefined);
+        return run;
+    }
+
+    /**
+     * Run due jobs in the background until stopped
+     * Jobs left running by a scheduler that stopped mid-job are marked failed once their lease expired, since they may have completed.
+     * Jobs other schedulers are running keep their renewed lease and are left alone
+     */
+    public async start(): Promise<void> {
+        if (this.started) {
+            return;
+        }
+        this.started = true;
+
+        const now = this.clock.now();
+        for (const job of await this.store.list({ status: 'running' })) {
+            if (job.lockedUntil !== undefined && job.lockedUntil > now) {
+                continue;
+            }
+            await this.update(job, {
+                lockedBy: undefined,
+                lockedUntil: undefined,
+                status: 'failed',
+                lastError: { name: 'InterruptedError', message: 'The scheduler stopped while the job was running', retryable: false }
+            });
+        }
+        this.arm();
+    }
+
+    /**
+     * Stop running jobs in the background, the job in progress (if any) finishes
+     */
+    public stop(): void {
+        this.started = false;
+        if (this.timer !== undefined) {
+            this.clock.clearTimer(this.timer);
+            this.timer = undefined;
+        }
+    }
+
+    private async runDueJobs(): Promise<ScheduledJob[]> {
+        const now = this.clock.now();
+        const due = (await this.store.list({ status: 'pending' })).filter(job => job.runAt <= now);
+
+        const finished: ScheduledJob[] = [];
+        for (const { id } of due) {
+            // The job may have been cancelled or rescheduled while earlier jobs ran
+            const job = await this.store.get(id);
+            if (job && job.status === 'pending' && job.runAt <= now) {
+                finished.push(await this.runJob(job));
+            }
+        }
+        return finished;
+    }
+
+    private async runJob(job: ScheduledJob): Promise<ScheduledJob> {
+        const attempt = job.attempts + 1;
+        const leaseMs = this.options.leaseMs ?? DEFAULT_LEASE_MS;
+        const running = await this.update(job, {
+            status: 'running',
+            attempts: attempt,
+            lockedBy: this.id,
+            lockedUntil: this.clock.now() + leaseMs
+        });
+        const handler = this.handlers.get(job.type);
+        const lease = this.renewLease(running, leaseMs);
+        const unlocked = { lockedBy: undefined, lockedUntil: undefined };
+
+        let result: ScheduledJob;
+        try {
+            if (!handler) {
+                throw new ValidationError(`No handler registered for job type ${job.type}`, { integration: INTEGRATION });
+            }
+            const value = await handler(running.payload, running);
+            await lease.release();
+            result = await this.update(running, { ...unlocked, status: 'succeeded', result: value, lastError: undefined });
+        } catch (error) {
+            await lease.release();
+            const kuweError = error instanceof KuweError ? error : toKuweError(error, INTEGRATION);
+            const delayMs = getRetryDelay(
+                { ...this.retry, retryNonIdempotent: this.retry.retryNonIdempotent || wasNotProcessed(kuweError) },
+                attempt,
+                'POST',
+                kuweError
+            );
+            const lastError = {
+                name: kuweError.name,
+                message: kuweError.message,
+                integration: kuweError.integration,
+                status: kuweError.status,
+                code: kuweError.code,
+                retryable: kuweError.retryable
+            };
+
+            if (delayMs !== undefined) {
+                return this.update(running, { ...unlocked, status: 'pending', runAt: this.clock.now() + delayMs, lastError });
+            }
+            result = await this.update(running, { ...unlocked, status: 'failed', lastError });
+        }
+
+        this.options.onJobFinished?.(result);
+        return result;
+    }
+
+    /**
+     * Extend the lease of a running job until it is released, so other schedulers don't take it for interrupted
+     * Releasing waits for the renewal in progress, which must not overwrite the job's final state
+     */
+    private renewLease(job: ScheduledJob, leaseMs: number): { release(): Promise<void> } {
+        let renewal: Promise<void> = Promise.resolve();
+        let timer: unknown;
+
+        const schedule = () => {
+            timer = this.clock.setTimer(() => {
+                renewal = renewal
+                    .then(() => this.update(job, { lockedUntil: this.clock.now() + leaseMs }))
+                    .then(() => undefined, error => this.options.onError?.(error));
+                schedule();
+            }, leaseMs / 3);
+        };
+        schedule();
+
+        return {
+            release: () => {
+                this.clock.clearTimer(timer);
+                return renewal;
+            }
+        };
+    }
+
+    private async update(job: ScheduledJob, changes: Partial<ScheduledJob>): Promise<ScheduledJob> {
+        const updated = { ...job, ...changes, updatedAt: this.clock.now() };
+        await this.store.save(updated);
+        return updated;
+    }
+
+    /**
+     * Set the timer for the next due job, checking at least every pollIntervalMs
+     */
+    private arm(): void {
+        if (!this.started) {
+            return;
+        }
+
+        // Only the latest call sets the timer, earlier ones may have seen an outdated list
+        const generation = ++this.generation;
+        const pollIntervalMs = this.options.pollIntervalMs ?? 60 * 1000;
+
+        this.store.list({ status: 'pending' }).then(([next]) => {
+            if (!this.started || generation !== this.generation) {
+                return;
+            }
+            if (this.timer !== undefined) {
+                this.clock.clearTimer(this.timer);
+            }
+
+            const delayMs = next ? Math.min(Math.max(next.runAt - this.clock.now(), 0), pollIntervalMs) : pollIntervalMs;
+            this.timer = this.clock.setTimer(() => {
+                this.timer = undefined;
+                this.runDue()
+                    .catch(error => this.options.onError?.(error))
+                    .then(() => this.arm());
+            }, delayMs);
+        }, error => this.options.onError?.(error));
+    }
+}
+
+/**
+ * Whether a failure happened before the provider acted on the request, so running the job again cannot repeat it
+ */
+function wasNotProcessed(error: KuweError): boolean {
+    return error instanceof RateLimitError || error.code === 'ECONNREFUSED';
+}
+
+function toTime(value: Date | number): number {
+    const time = typeof value === 'number' ? value : value.getTime();
+    if (!Number.isFinite(time)) {
+        throw new ValidationError('Invalid job date', { integration: INTEGRATION });
+    }
+    return time;
+}
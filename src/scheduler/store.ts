@@ -0,0 +1,189 @@
+import { promises as fs } from 'fs';
+import * as path from 'path';
+
+/**
+ * Lifecycle of a job: pending until it runs, then succeeded or failed (after its retries), unless cancelled
+ */
+export type JobStatus = 'pending' | 'running' | 'succeeded' | 'failed' | 'cancelled';
+
+/**
+ * Error of the last failed attempt of a job
+ */
+export interface JobError {
+    name: string;
+    message: string;
+    integration?: string;
+    status?: number;
+    code?: string;
+    retryable: boolean;
+}
+
+/**
+ * A job persisted by the scheduler
+ * Payloads and results must be JSON-serializable to be stored in files or shared stores
+ */
+export interface ScheduledJob<TPayload = unknown> {
+    id: string;
+    type: string;
+    payload: TPayload;
+    status: JobStatus;
+    /** When the job (or its next retry) runs, in epoch milliseconds */
+    runAt: number;
+    /** Number of attempts made so far */
+    attempts: number;
+    createdAt: number;
+    updatedAt: number;
+    lastError?: JobError;
+    /** Value returned by the handler of a succeeded job */
+    result?: unknown;
+    /** Scheduler running the job, while it is running */
+    lockedBy?: string;
+    /** When the lease of the running job expires unless its scheduler renews it, in epoch milliseconds */
+    lockedUntil?: number;
+}
+
+/**
+ * Filter for listing jobs
+ */
+export interface JobFilter {
+    status?: JobStatus | JobStatus[];
+    type?: string;
+}
+
+/**
+ * Persistence of scheduled jobs
+ * Implement it on top of a shared store (e.g. a database) to keep jobs across deployments
+ */
+export interface JobStore {
+    get(id: string): Promise<ScheduledJob | undefined>;
+    /**
+     * List jobs matching the filter, ordered by runAt
+     */
+    list(filter?: JobFilter): Promise<ScheduledJob[]>;
+    save(job: ScheduledJob): Promise<void>;
+    delete(id: string): Promise<void>;
+}
+
+/** File used by FileJobStore when no path is given */
+export const DEFAULT_JOB_FILE = path.join('.kuwe', 'jobs.json');
+
+/**
+ * Job store local to the process, jobs are lost when it exits
+ */
+export class InMemoryJobStore implements JobStore {
+    private jobs = new Map<string, ScheduledJob>();
+
+    public async get(id: string): Promise<ScheduledJob | undefined> {
+        const job = this.jobs.get(id);
+        return job ? copyJob(job) : undefined;
+    }
+
+    public async list(filter: JobFilter = {}): Promise<ScheduledJob[]> {
+        return filterJobs([...this.jobs.values()], filter).map(copyJob);
+    }
+
+    public async save(job: ScheduledJob): Promise<void> {
+        this.jobs.set(job.id, copyJob(job));
+    }
+
+    public async delete(id: string): Promise<void> {
+        this.jobs.delete(id);
+    }
+}
+
+/** Stores returned by FileJobStore.forFile, by absolute file path */
+const sharedFileStores = new Map<string, FileJobStore>();
+
+/**
+ * Job store keeping jobs in a JSON file, so they survive restarts
+ * Meant for a single process: concurrent writers to the same file overwrite each other,
+ * use `FileJobStore.forFile()` to share one store between the clients of a process
+ */
+export class FileJobStore implements JobStore {
+    private jobs?: Promise<Map<string, ScheduledJob>>;
+    private writes: Promise<void> = Promise.resolve();
+
+    /**
+     * @param filePath - JSON file to keep jobs in, created on the first save (default: .kuwe/jobs.json in the working directory)
+     */
+    constructor(private readonly filePath: string = DEFAULT_JOB_FILE) { }
+
+    /**
+     * Get the store of a file, shared by every caller in the process
+     * @param filePath - JSON file to keep jobs in (default: .kuwe/jobs.json in the working directory)
+     */
+    static forFile(filePath: string = DEFAULT_JOB_FILE): FileJobStore {
+        const key = path.resolve(filePath);
+        let store = sharedFileStores.get(key);
+        if (!store) {
+            store = new FileJobStore(key);
+            sharedFileStores.set(key, store);
+        }
+        return store;
+    }
+
+    public async get(id: string): Promise<ScheduledJob | undefined> {
+        const job = (await this.load()).get(id);
+        return job ? copyJob(job) : undefined;
+    }
+
+    public async list(filter: JobFilter = {}): Promise<ScheduledJob[]> {
+        return filterJobs([...(await this.load()).values()], filter).map(copyJob);
+    }
+
+    public async save(job: ScheduledJob): Promise<void> {
+        const jobs = await this.load();
+        jobs.set(job.id, copyJob(job));
+        return this.persist(jobs);
+    }
+
+    public async delete(id: string): Promise<void> {
+        const jobs = await this.load();
+        if (jobs.delete(id)) {
+            return this.persist(jobs);
+        }
+    }
+
+    private load(): Promise<Map<string, ScheduledJob>> {
+        if (!this.jobs) {
+            this.jobs = fs.readFile(this.filePath, 'utf8').then(
+                text => new Map((JSON.parse(text).jobs as ScheduledJob[]).map(job => [job.id, job])),
+                (error: NodeJS.ErrnoException) => {
+                    if (error.code === 'ENOENT') {
+                        return new Map();
+                    }
+                    this.jobs = undefined;
+                    throw error;
+                }
+            );
+        }
+        return this.jobs;
+    }
+
+    /**
+     * Write the jobs to a temporary file and rename it, so a crash never leaves a truncated file
+     * Writes are serialized, each one writes the latest state
+     */
+    private persist(jobs: Map<string, ScheduledJob>): Promise<void> {
+        const write = async () => {
+            const temporary = `${this.filePath}.tmp`;
+            await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+            await fs.writeFile(temporary, JSON.stringify({ jobs: [...jobs.values()] }, null, 2));
+            await fs.rename(temporary, this.filePath);
+        };
+
+        this.writes = this.writes.then(write, write);
+        return this.writes;
+    }
+}
+
+function filterJobs(jobs: ScheduledJob[], filter: JobFilter): ScheduledJob[] {
+    const statuses = filter.status === undefined ? undefined : ([] as JobStatus[]).concat(filter.status);
+    return jobs
+        .filter(job => (!statuses || statuses.includes(job.status)) && (!filter.type || job.type === filter.type))
+        .sort((a, b) => a.runAt - b.runAt);
+}
+
+function copyJob(job: ScheduledJob): ScheduledJob {
+    return JSON.parse(JSON.stringify(job));
+}
@@ -0,0 +1,209 @@
+import type { ProxyConfiguration } from '@nangohq/node';
+import type { AuthCredentials } from '../integrations/base';
+import type { GoogleRequestAdapter, KuweTransport, TransportResponse } from './transport';
+
+/**
+ * A request recorded by the fake transport
+ * googleapis requests are recorded with the origin as baseUrlOverride and the path (with query) as endpoint
+ */
+export interface RecordedCall {
+    method: string;
+    endpoint: string;
+    baseUrlOverride?: string;
+    data?: unknown;
+    params?: ProxyConfiguration['params'];
+    headers?: Record<string, string>;
+    providerConfigKey?: string;
+    connectionId?: string;
+}
+
+/**
+ * A scripted response, either static or computed from the recorded call
+ */
+export interface FakeResponseInit {
+    status?: number;
+    data?: unknown;
+    headers?: Record<string, string>;
+}
+
+export type FakeResponse = FakeResponseInit | ((call: RecordedCall) => FakeResponseInit | Promise<FakeResponseInit>);
+
+/**
+ * Configuration options for FakeTransport constructor
+ */
+export interface FakeTransportConfig {
+    credentials?: Record<string, AuthCredentials>;
+}
+
+interface FakeRoute {
+    method: string;
+    endpoint: string | RegExp;
+    responses: FakeResponse[];
+}
+
+/**
+ * Error thrown by the fake transport for scripted responses with an error status
+ * Mirrors the shape of the axios errors thrown by the Nango client
+ */
+export class FakeTransportError extends Error {
+    readonly isAxiosError = true;
+
+    constructor(
+        message: string,
+        public readonly response: TransportResponse & { headers: Record<string, string> }
+    ) {
+        super(message);
+        this.name = 'FakeTransportError';
+    }
+}
+
+/**
+ * In-memory transport for testing code built on KuweAI without reaching Nango or provider APIs
+ * Records every call, serves scripted responses per route and returns fake credentials
+ */
+export class FakeTransport implements KuweTransport {
+    public readonly calls: RecordedCall[] = [];
+    public readonly connectionRequests: Array<{ providerConfigKey: string; connectionId: string; forceRefresh?: boolean }> = [];
+
+    private routes: FakeRoute[] = [];
+    private credentials: Record<string, AuthCredentials>;
+
+    constructor(config: FakeTransportConfig = {}) {
+        this.credentials = { ...config.credentials };
+    }
+
+    /**
+     * Script the responses for a route
+     * Responses are served in order and the last one is repeated for any further call
+     * @param method - HTTP method to match (case-insensitive)
+     * @param endpoint - Exact endpoint (query string optional) or pattern tested against the full endpoint
+     * @param responses - Responses to serve
+     */
+    public respond(method: string, endpoint: string | RegExp, ...responses: FakeResponse[]): this {
+        if (responses.length === 0) {
+            throw new Error('At least one response is required');
+        }
+
+        this.routes.push({ method: method.toUpperCase(), endpoint, responses: [...responses] });
+        return this;
+    }
+
+    /**
+     * Set the credentials served for a provider
+     */
+    public setCredentials(providerConfigKey: string, credentials: AuthCredentials): this {
+        this.credentials[providerConfigKey] = credentials;
+        return this;
+    }
+
+    /**
+     * Get the recorded calls matching a method and endpoint
+     */
+    public callsTo(method: string, endpoint: string | RegExp): RecordedCall[] {
+        return this.calls.filter(call => call.method === method.toUpperCase() && matchesEndpoint(endpoint, call.endpoint));
+    }
+
+    /**
+     * Forget recorded calls and scripted routes
+     */
+    public reset(): void {
+        this.calls.length = 0;
+        this.connectionRequests.length = 0;
+        this.routes = [];
+    }
+
+    public async proxy<T>(config: ProxyConfiguration): Promise<TransportResponse<T>> {
+        const response = await this.handle({
+            method: (config.method || 'GET').toUpperCase(),
+            endpoint: config.endpoint,
+            baseUrlOverride: config.baseUrlOverride,
+            data: config.data,
+            params: config.params,
+            headers: config.headers,
+            providerConfigKey: config.providerConfigKey,
+            connectionId: config.connectionId
+        });
+
+        if (response.status >= 400) {
+            throw new FakeTransportError(`Request failed with status code ${response.status}`, response);
+        }
+
+        return response as TransportResponse<T>;
+    }
+
+    public async getConnection(providerConfigKey: string, connectionId: string, forceRefresh?: boolean) {
+        this.connectionRequests.push({ providerConfigKey, connectionId, forceRefresh });
+
+        const credentials: AuthCredentials = this.credentials[providerConfigKey] || {
+            type: 'OAUTH2',
+            access_token: `fake-access-token-${providerConfigKey}`
+        };
+
+        return {
+            connection_id: connectionId,
+            provider_config_key: providerConfigKey,
+            credentials
+        };
+    }
+
+    /**
+     * Adapter routing googleapis requests through the scripted routes
+     */
+    public readonly googleAdapter = (async (options: Parameters<GoogleRequestAdapter>[0]) => {
+        const url = options.url instanceof URL ? options.url : new URL(String(options.url));
+        const response = await this.handle({
+            method: (options.method || 'GET').toUpperCase(),
+            endpoint: `${url.pathname}${url.search}`,
+            baseUrlOverride: `${url.origin}/`,
+            data: options.data
+        });
+
+        const nullBody = response.status === 204 || response.status === 304;
+        const body = nullBody || response.data === undefined
+            ? null
+            : typeof response.data === 'string' ? response.data : JSON.stringify(response.data);
+
+        // Consume the body like a real fetch would, so gaxios keeps `data` on error responses
+        const fetchResponse = new Response(body, { status: response.status, headers: response.headers });
+        await fetchResponse.arrayBuffer();
+
+        return Object.assign(fetchResponse, {
+            config: options,
+            data: response.data
+        });
+    }) as GoogleRequestAdapter;
+
+    private async handle(call: RecordedCall): Promise<TransportResponse & { headers: Record<string, string> }> {
+        this.calls.push(call);
+
+        const route = this.routes.find(r => r.method === call.method && matchesEndpoint(r.endpoint, call.endpoint));
+        if (!route) {
+            throw new Error(`No scripted response for ${call.method} ${call.endpoint}`);
+        }
+
+        const scripted = route.responses.length > 1 ? route.responses.shift()! : route.responses[0];
+        const init = typeof scripted === 'function' ? await scripted(call) : scripted;
+
+        return {
+            status: init.status ?? 200,
+            data: init.data,
+            headers: normalizeHeaders(init.headers)
+        };
+    }
+}
+
+function matchesEndpoint(pattern: string | RegExp, endpoint: string): boolean {
+    if (pattern instanceof RegExp) {
+        return pattern.test(endpoint);
+    }
+
+    return pattern === endpoint || (!pattern.includes('?') && pattern === endpoint.split('?')[0]);
+}
+
+function normalizeHeaders(headers: Record<string, string> = {}): Record<string, string> {
+    const normalized: Record<string, string> = {};
+    for (const [key, value] of Object.entries(headers)) {
+        normalized[key.toLowerCase()] = value;
+    }
+    return normalized;
+}
@@ -0,0 +1,3 @@
+export type { KuweTransport, TransportResponse, GoogleRequestAdapter } from './transport';
+export { FakeTransport, FakeTransportError } from './fake-transport';
+export type { RecordedCall, FakeResponse, FakeResponseInit, FakeTransportConfig } from './fake-transport';
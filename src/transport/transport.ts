@@ -0,0 +1,54 @@
+import type { ProxyConfiguration } from '@nangohq/node';
+import type { Common } from 'googleapis';
+
+/**
+ * Minimal response shape returned by a transport proxy call
+ * Compatible with the AxiosResponse returned by the Nango client
+ */
+export interface TransportResponse<T = unknown> {
+    data: T;
+    status: number;
+    headers?: unknown;
+}
+
+/**
+ * Adapter used by googleapis clients to perform their HTTP requests
+ */
+export type GoogleRequestAdapter = NonNullable<Common.GlobalOptions['adapter']>;
+
+/**
+ * Transport used by integrations to reach third-party APIs and fetch credentials
+ * The Nango client satisfies this interface, so it can be passed as-is
+ */
+export interface KuweTransport {
+    /**
+     * Proxy a request to the provider API through the connection
+     */
+    proxy<T = unknown>(config: ProxyConfiguration): Promise<TransportResponse<T>>;
+
+    /**
+     * Fetch the connection (and its credentials) for a provider
+     */
+    getConnection(providerConfigKey: string, connectionId: string, forceRefresh?: boolean): Promise<{ credentials: unknown }>;
+
+    /**
+     * Optional adapter for requests made directly by googleapis clients
+     * When omitted, googleapis performs real HTTP requests
+     */
+    googleAdapter?: GoogleRequestAdapter;
+}
+
+/**
+ * Read a header from a response, whether headers are a plain object or a fetch Headers instance
+ */
+export function readHeader(headers: unknown, name: string): string | undefined {
+    if (!headers || typeof headers !== 'object') {
+        return undefined;
+    }
+
+    const value = typeof (headers as { get?: unknown }).get === 'function'
+        ? (headers as { get(name: string): unknown }).get(name)
+        : (headers as Record<string, unknown>)[name] ?? (headers as Record<string, unknown>)[name.toLowerCase()];
+
+    return value === undefined || value === null ? undefined : String(value);
+}
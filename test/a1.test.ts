@@ -0,0 +1,72 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { formatA1, parseA1, toGridRange } from '../src';
+
+describe('formatA1', () => {
+    it('formats a start column without an end as the whole column', () => {
+        assert.equal(formatA1({ sheet: 'Data', startColumn: 2 }), 'Data!B:B');
+    });
+
+    it('formats a start row without an end as the whole row', () => {
+        assert.equal(formatA1({ sheet: 'Data', startRow: 2 }), 'Data!2:2');
+    });
+
+    it('formats a start cell without an end as the cell alone', () => {
+        assert.equal(formatA1({ sheet: 'Data', startColumn: 2, startRow: 3 }), 'Data!B3');
+    });
+
+    it('keeps open-ended and full ranges', () => {
+        assert.equal(formatA1({ sheet: 'Data', startColumn: 1, endColumn: 3 }), 'Data!A:C');
+        assert.equal(formatA1({ startColumn: 1, startRow: 2, endColumn: 4 }), 'A2:D');
+        assert.equal(formatA1({ sheet: 'My Data', startColumn: 1, startRow: 1, endColumn: 2, endRow: 5 }), "'My Data'!A1:B5");
+        assert.equal(formatA1({ sheet: 'Data' }), 'Data');
+    });
+
+    it('round-trips through parseA1', () => {
+        for (const range of ['Data!B:B', 'Data!2:2', 'Data!B3', 'A2:D', "'My Data'!A1:B5"]) {
+            assert.equal(formatA1(parseA1(range)), range);
+        }
+    });
+});
+
+describe('toGridRange', () => {
+    it('converts a start column without an end to a single column', () => {
+        assert.deepEqual(toGridRange({ startColumn: 2 }, 7), {
+            sheetId: 7,
+            startRowIndex: undefined,
+            endRowIndex: undefined,
+            startColumnIndex: 1,
+            endColumnIndex: 2
+        });
+    });
+
+    it('converts a start row without an end to a single row', () => {
+        assert.deepEqual(toGridRange({ startRow: 1 }, 0), {
+            sheetId: 0,
+            startRowIndex: 0,
+            endRowIndex: 1,
+            startColumnIndex: undefined,
+            endColumnIndex: undefined
+        });
+    });
+
+    it('converts a start cell without an end to a single cell', () => {
+        assert.deepEqual(toGridRange(parseA1('B3'), 0), {
+            sheetId: 0,
+            startRowIndex: 2,
+            endRowIndex: 3,
+            startColumnIndex: 1,
+            endColumnIndex: 2
+        });
+    });
+
+    it('leaves omitted bounds of ranges with an end open', () => {
+        assert.deepEqual(toGridRange(parseA1('A2:D'), 0), {
+            sheetId: 0,
+            startRowIndex: 1,
+            endRowIndex: undefined,
+            startColumnIndex: 0,
+            endColumnIndex: 4
+        });
+    });
+});
@@ -0,0 +1,221 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+    AgentTool,
+    FakeTransport,
+    GmailIntegration,
+    GoogleSheetsIntegration,
+    JsonSchema,
+    LinkedInIntegration,
+    OpenAIIntegration,
+    RecordedCall,
+    ValidationError,
+    createMethodTools,
+    gmailTools,
+    googleSheetsTools,
+    linkedInTools,
+    param,
+    toolSchema
+} from '../src';
+import { StubServer, sendJson, startStubServer } from './helpers/stub-server';
+
+const SEND = '/gmail/v1/users/me/messages/send';
+
+function gmailWith(transport: FakeTransport) {
+    transport
+        .respond('POST', SEND, { data: { id: 'sent-1', threadId: 'thread-1' } })
+        .respond('POST', '/gmail/v1/users/me/drafts', { data: { id: 'draft-1' } });
+    return new GmailIntegration(transport, 'connection');
+}
+
+/** Headers of the raw message sent to Gmail */
+function sentHeaders(call: RecordedCall): string {
+    const data = (typeof call.data === 'string' ? JSON.parse(call.data) : call.data) as { raw?: string; message?: { raw: string } };
+    const raw = Buffer.from(data.raw ?? data.message!.raw, 'base64').toString('utf8');
+    return raw.slice(0, raw.indexOf('\r\n\r\n'));
+}
+
+function allTools(): AgentTool[] {
+    const transport = new FakeTransport();
+    return [
+        ...gmailTools(new GmailIntegration(transport, 'connection')),
+        ...googleSheetsTools(new GoogleSheetsIntegration(transport, 'connection')),
+        ...linkedInTools(new LinkedInIntegration(transport, 'connection'))
+    ];
+}
+
+describe('agent tools', () => {
+    it('reject undeclared properties in every object schema', () => {
+        const objects: Array<{ path: string; schema: JsonSchema }> = [];
+        const visit = (schema: JsonSchema, path: string) => {
+            if (schema.type === 'object') {
+                objects.push({ path, schema });
+            }
+            for (const [name, property] of Object.entries(schema.properties || {})) {
+                visit(property, `${path}.${name}`);
+            }
+            if (schema.items) {
+                visit(schema.items, `${path}[]`);
+            }
+            schema.anyOf?.forEach((option, index) => visit(option, `${path}|${index}`));
+        };
+        for (const tool of allTools()) {
+            visit(tool.parameters, tool.name);
+        }
+
+        assert.ok(objects.some(({ path }) => path === 'gmail_sendEmail.email'));
+        for (const { path, schema } of objects) {
+            assert.equal(schema.additionalProperties, false, `${path} accepts undeclared properties`);
+        }
+    });
+
+    it('generate the argument schemas from the param descriptors', () => {
+        const sendEmail = allTools().find(tool => tool.name === 'gmail_sendEmail')!;
+        const listMyPosts = allTools().find(tool => tool.name === 'linkedin_listMyPosts')!;
+        const recipients = (description: string) => ({ anyOf: [{ type: 'string' }, { type: 'array', items: { type: 'string' } }], description });
+
+        assert.deepEqual(sendEmail.parameters, {
+            type: 'object',
+            properties: {
+                email: {
+                    type: 'object',
+                    properties: {
+                        to: recipients('Recipient address(es)'),
+                        subject: { type: 'string', description: 'Subject' },
+                        text: { type: 'string', description: 'Plain text body' },
+                        cc: recipients('CC address(es)')
+                    },
+                    required: ['to', 'subject', 'text'],
+                    additionalProperties: false
+                }
+            },
+            required: ['email'],
+            additionalProperties: false
+        });
+        assert.deepEqual(listMyPosts.parameters.required, []);
+    });
+
+    it('check the params against the method signatures when compiled', () => {
+        const gmail = new GmailIntegration(new FakeTransport(), 'connection');
+        // The test build fails if the type-checker accepts any of these
+        const tools = createMethodTools(gmail, 'gmail', tool => [
+            // @ts-expect-error maxResults is a number
+            tool({ method: 'searchEmails', description: '', params: [param('query', toolSchema.string()), param('maxResults', toolSchema.string())] }),
+            // @ts-expect-error the email needs a subject
+            tool({ method: 'sendEmail', description: '', params: [param('email', toolSchema.object({ to: toolSchema.string() }))] }),
+            // @ts-expect-error the recipients are strings
+            tool({ method: 'createDraft', description: '', params: [param('email', toolSchema.object({ to: toolSchema.integer(), subject: toolSchema.string() }))] }),
+            // @ts-expect-error the message ID is required
+            tool({ method: 'getParsedEmail', description: '' }),
+            // @ts-expect-error the data is a parsed email
+            tool({ method: 'getParsedEmail', description: '', params: [param('messageId', toolSchema.string())], select: (data: string) => data })
+        ]);
+        assert.equal(tools.length, 5);
+
+        assert.throws(() => createMethodTools(gmail, 'gmail', tool => [
+            // @ts-expect-error not a method of the integration
+            tool({ method: 'sendMail', description: '' })
+        ]), ValidationError);
+    });
+
+    it('only pass the declared email fields to Gmail', async () => {
+        const transport = new FakeTransport();
+        const tools = gmailTools(gmailWith(transport));
+        const sendEmail = tools.find(tool => tool.name === 'gmail_sendEmail')!;
+        const createDraft = tools.find(tool => tool.name === 'gmail_createDraft')!;
+        const email = {
+            to: 'ada@example.com',
+            subject: 'Report',
+            text: 'See you',
+            cc: null,
+            bcc: 'attacker@example.com',
+            from: 'ceo@example.com',
+            headers: { 'X-Injected': 'yes' },
+            attachments: [{ filename: 'secrets.txt', content: 'c2VjcmV0' }]
+        };
+
+        await sendEmail.execute({ email });
+        await createDraft.execute({ email: { ...email, cc: 'bob@example.com' } });
+
+        const [sent] = transport.callsTo('POST', SEND);
+        const [draft] = transport.callsTo('POST', '/gmail/v1/users/me/drafts');
+        for (const headers of [sentHeaders(sent), sentHeaders(draft)]) {
+            assert.match(headers, /^To: ada@example\.com$/m);
+            assert.match(headers, /^Subject: Report$/m);
+            assert.doesNotMatch(headers, /^(Bcc|From|X-Injected):/mi);
+            assert.doesNotMatch(headers, /multipart\/mixed/);
+        }
+        // cc is not offered for drafts
+        assert.doesNotMatch(sentHeaders(draft), /^Cc:/mi);
+    });
+});
+
+describe('runAgent with Gmail tools against a stub OpenAI API', () => {
+    let server: StubServer;
+
+    before(async () => {
+        server = await startStubServer((request, response) => {
+            const body = JSON.parse(request.body) as { messages: Array<{ role: string }> };
+            const answered = body.messages.some(message => message.role === 'tool');
+            const message = answered
+                ? { role: 'assistant', content: 'Sent.' }
+                : {
+                    role: 'assistant',
+                    content: null,
+                    tool_calls: [{
+                        id: 'call-1',
+                        type: 'function',
+                        function: {
+                            name: 'gmail_sendEmail',
+                            arguments: JSON.stringify({ email: { to: 'ada@example.com', subject: 'Hi', text: 'Hello', bcc: 'someone@example.com' } })
+                        }
+                    }]
+                };
+            sendJson(response, 200, {
+                id: 'chatcmpl-1',
+                object: 'chat.completion',
+                created: 1,
+                model: 'gpt-4o-mini',
+                choices: [{ index: 0, message, finish_reason: answered ? 'stop' : 'tool_calls' }],
+                usage: { prompt_tokens: 10, completion_tokens: 5, total_tokens: 15 }
+            });
+        });
+    });
+
+    after(() => server.close());
+
+    it('sends the confirmed email with the declared fields only', async () => {
+        const transport = new FakeTransport();
+        const openai = new OpenAIIntegration('test-key', { baseURL: `${server.url}/v1` });
+        const confirmed: string[] = [];
+
+        const { data } = await openai.runAgent('Say hello to Ada', {
+            tools: gmailTools(gmailWith(transport)),
+            confirm: call => {
+                confirmed.push(call.tool);
+                return true;
+            }
+        });
+
+        assert.equal(data.output, 'Sent.');
+        assert.equal(data.steps, 2);
+        assert.deepEqual(confirmed, ['gmail_sendEmail']);
+        assert.equal(data.toolCalls[0].status, 'succeeded');
+        assert.deepEqual(data.usage, { promptTokens: 20, completionTokens: 10, totalTokens: 30 });
+        assert.doesNotMatch(sentHeaders(transport.callsTo('POST', SEND)[0]), /^Bcc:/mi);
+
+        // The model is offered the schema, without a way to add other fields
+        const offered = JSON.parse(server.requests[0].body).tools.find((tool: { function: { name: string } }) => tool.function.name === 'gmail_sendEmail');
+        assert.equal(offered.function.parameters.properties.email.additionalProperties, false);
+    });
+
+    it('does not send the email without confirmation', async () => {
+        const transport = new FakeTransport();
+        const openai = new OpenAIIntegration('test-key', { baseURL: `${server.url}/v1` });
+
+        const { data } = await openai.runAgent('Say hello to Ada', { tools: gmailTools(gmailWith(transport)) });
+
+        assert.equal(data.toolCalls[0].status, 'denied');
+        assert.equal(transport.callsTo('POST', SEND).length, 0);
+    });
+});
@@ -0,0 +1,53 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { AuthCredentials, InMemoryCredentialCache } from '../src';
+
+const credentials = (token: string) => ({ type: 'OAUTH2', access_token: token }) as AuthCredentials;
+
+describe('InMemoryCredentialCache', () => {
+    it('serves credentials until their TTL elapses', async () => {
+        const cache = new InMemoryCredentialCache();
+        await cache.set('live', credentials('a'), 60000);
+        await cache.set('expired', credentials('b'), -1);
+
+        assert.deepEqual(await cache.get('live'), credentials('a'));
+        assert.equal(await cache.get('expired'), undefined);
+        assert.equal(cache.size, 1);
+    });
+
+    it('evicts the least recently used connection beyond maxEntries', async () => {
+        const cache = new InMemoryCredentialCache({ maxEntries: 2 });
+        await cache.set('first', credentials('1'), 60000);
+        await cache.set('second', credentials('2'), 60000);
+        // Reading marks the first connection as recently used
+        await cache.get('first');
+        await cache.set('third', credentials('3'), 60000);
+
+        assert.equal(cache.size, 2);
+        assert.equal(await cache.get('second'), undefined);
+        assert.deepEqual(await cache.get('first'), credentials('1'));
+        assert.deepEqual(await cache.get('third'), credentials('3'));
+    });
+
+    it('drops all expired entries before evicting live ones', async () => {
+        const cache = new InMemoryCredentialCache({ maxEntries: 3 });
+        await cache.set('live', credentials('1'), 60000);
+        await cache.set('expired-1', credentials('2'), -1);
+        await cache.set('expired-2', credentials('3'), -1);
+        await cache.set('new', credentials('4'), 60000);
+
+        assert.equal(cache.size, 2);
+        assert.deepEqual(await cache.get('live'), credentials('1'));
+        assert.deepEqual(await cache.get('new'), credentials('4'));
+    });
+
+    it('stays bounded with one entry per connection', async () => {
+        const cache = new InMemoryCredentialCache({ maxEntries: 100 });
+        for (let i = 0; i < 1000; i++) {
+            await cache.set(`google-mail:user-${i}`, credentials(String(i)), 60000);
+        }
+
+        assert.equal(cache.size, 100);
+        assert.deepEqual(await cache.get('google-mail:user-999'), credentials('999'));
+    });
+});
@@ -0,0 +1,60 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { FakeTransport, GmailIntegration, RecordedCall } from '../src';
+
+const DRAFT = /^\/gmail\/v1\/users\/me\/drafts\/d1/;
+const SEND = /^\/gmail\/v1\/users\/me\/drafts\/send/;
+
+/**
+ * Request body as sent by googleapis, with the raw message decoded
+ */
+function sentDraft(call: RecordedCall): { id?: string; message: { threadId?: string; raw: string } } {
+    const body = typeof call.data === 'string' ? JSON.parse(call.data) : call.data;
+    return { ...body, message: { ...body.message, raw: Buffer.from(body.message.raw, 'base64url').toString('utf8') } };
+}
+
+const base64 = (text: string) => Buffer.from(text).toString('base64');
+
+function gmailWith(draft: object) {
+    const transport = new FakeTransport()
+        .respond('GET', DRAFT, { data: draft })
+        .respond('PUT', DRAFT, call => ({ data: { id: 'd1', message: { id: 'm2', threadId: sentDraft(call).message.threadId } } }))
+        .respond('POST', SEND, { data: { id: 'm3', threadId: 't1', labelIds: ['SENT'] } });
+    return { transport, gmail: new GmailIntegration(transport, 'connection') };
+}
+
+describe('Gmail drafts', () => {
+    it('keeps the thread of a reply draft when it is updated', async () => {
+        const { transport, gmail } = gmailWith({ id: 'd1', message: { id: 'm1', threadId: 't1' } });
+
+        const result = await gmail.updateDraft('d1', { to: 'ann@example.com', subject: 'Re: Plans', text: 'See you then' });
+
+        const [update] = transport.callsTo('PUT', DRAFT);
+        const body = sentDraft(update);
+        assert.equal(body.id, 'd1');
+        assert.equal(body.message.threadId, 't1');
+        assert.match(body.message.raw, /^Subject: Re: Plans\r$/m);
+        assert.ok(body.message.raw.includes(base64('See you then')));
+        assert.equal(result.data.message?.threadId, 't1');
+        assert.match(transport.callsTo('GET', DRAFT)[0].endpoint, /format=minimal/);
+    });
+
+    it('leaves a draft outside any thread unthreaded', async () => {
+        const { transport, gmail } = gmailWith({ id: 'd1', message: { id: 'm1' } });
+
+        await gmail.updateDraft('d1', { to: 'ann@example.com', subject: 'Plans', text: 'Hi' });
+
+        assert.equal(sentDraft(transport.callsTo('PUT', DRAFT)[0]).message.threadId, undefined);
+    });
+
+    it('sends replaced content in the thread of the draft', async () => {
+        const { transport, gmail } = gmailWith({ id: 'd1', message: { id: 'm1', threadId: 't1' } });
+
+        await gmail.sendDraft('d1', { to: 'ann@example.com', subject: 'Re: Plans', text: 'Changed my mind' });
+
+        const body = sentDraft(transport.callsTo('POST', SEND)[0]);
+        assert.equal(body.id, 'd1');
+        assert.equal(body.message.threadId, 't1');
+        assert.ok(body.message.raw.includes(base64('Changed my mind')));
+    });
+});
@@ -0,0 +1,70 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { FakeTransport, GmailIntegration, GmailSyncEvent, GmailSyncOptions, InMemoryJobStore, KuweAI, Scheduler } from '../src';
+
+const PROFILE = '/gmail/v1/users/me/profile';
+const HISTORY = /^\/gmail\/v1\/users\/me\/history/;
+
+function clientWith(transport: FakeTransport) {
+    return new KuweAI({ transport, connectionId: 'connection', scheduler: new Scheduler({ store: new InMemoryJobStore() }) });
+}
+
+async function collect(gmail: GmailIntegration, options?: GmailSyncOptions): Promise<GmailSyncEvent[]> {
+    const events: GmailSyncEvent[] = [];
+    for await (const event of gmail.sync(options)) {
+        events.push(event);
+    }
+    return events;
+}
+
+const query = (endpoint: string) => new URLSearchParams(endpoint.split('?')[1]);
+
+describe('Gmail sync', () => {
+    it('keeps the cursor between integration instances of a client', async () => {
+        const transport = new FakeTransport()
+            .respond('GET', PROFILE, { data: { historyId: '100' } })
+            .respond('GET', HISTORY, {
+                data: { history: [{ id: '101', messagesAdded: [{ message: { id: 'm1', threadId: 't1' } }] }], historyId: '102' }
+            }, { data: { historyId: '102' } });
+        const kuwe = clientWith(transport);
+
+        assert.deepEqual(await collect(kuwe.forConnection('connection').gmail), []);
+        const events = await collect(kuwe.forConnection('connection').gmail);
+        await collect(kuwe.gmail);
+
+        assert.deepEqual(events, [{ type: 'messageAdded', historyId: '101', message: { id: 'm1', threadId: 't1' } }]);
+        assert.deepEqual(transport.callsTo('GET', HISTORY).map(call => query(call.endpoint).get('startHistoryId')), ['100', '102']);
+        assert.equal(transport.callsTo('GET', PROFILE).length, 1);
+    });
+
+    it('keeps separate cursors per connection and label', async () => {
+        const transport = new FakeTransport()
+            .respond('GET', PROFILE, { data: { historyId: '100' } }, { data: { historyId: '200' } }, { data: { historyId: '300' } })
+            .respond('GET', HISTORY, { data: { historyId: '400' } });
+        const kuwe = clientWith(transport);
+
+        await collect(kuwe.gmail);
+        await collect(kuwe.forConnection('other').gmail);
+        await collect(kuwe.gmail, { labelId: 'INBOX' });
+        await collect(kuwe.forConnection('other').gmail);
+
+        assert.equal(transport.callsTo('GET', PROFILE).length, 3);
+        assert.equal(query(transport.callsTo('GET', HISTORY)[0].endpoint).get('startHistoryId'), '200');
+    });
+
+    it('lists the current messages when the stored history expired', async () => {
+        const transport = new FakeTransport()
+            .respond('GET', PROFILE, { data: { historyId: '100' } }, { data: { historyId: '900' } })
+            .respond('GET', HISTORY, { status: 404, data: { error: { code: 404, message: 'Requested entity was not found.' } } }, { data: { historyId: '901' } })
+            .respond('GET', /^\/gmail\/v1\/users\/me\/messages\?/, { data: { messages: [{ id: 'm1', threadId: 't1' }] } })
+            .respond('GET', /^\/gmail\/v1\/users\/me\/messages\/m1/, { data: { id: 'm1', threadId: 't1', historyId: '900' } });
+        const gmail = clientWith(transport).gmail;
+
+        await collect(gmail);
+        const events = await collect(gmail);
+        await collect(gmail);
+
+        assert.deepEqual(events.map(event => [event.type, event.historyId]), [['resync', '900'], ['messageAdded', '900']]);
+        assert.deepEqual(transport.callsTo('GET', HISTORY).map(call => query(call.endpoint).get('startHistoryId')), ['100', '900']);
+    });
+});
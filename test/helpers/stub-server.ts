@@ -0,0 +1,66 @@
+import { AddressInfo } from 'net';
+import { IncomingHttpHeaders, ServerResponse, createServer } from 'http';
+
+/**
+ * A request received by the stub server
+ */
+export interface StubRequest {
+    method: string;
+    /** Path and query */
+    url: string;
+    headers: IncomingHttpHeaders;
+    body: string;
+}
+
+/**
+ * Local HTTP server answering with a handler, used as a Nango host or OpenAI-compatible API in tests
+ */
+export interface StubServer {
+    /** Origin of the server, e.g. http://127.0.0.1:53123 */
+    url: string;
+    requests: StubRequest[];
+    close(): Promise<void>;
+}
+
+export type StubHandler = (request: StubRequest, response: ServerResponse) => void | Promise<void>;
+
+/**
+ * Start a stub server on a free port
+ * @param handler - Writes the response of each request
+ */
+export async function startStubServer(handler: StubHandler): Promise<StubServer> {
+    const requests: StubRequest[] = [];
+    const server = createServer((req, res) => {
+        let body = '';
+        req.setEncoding('utf8');
+        req.on('data', chunk => body += chunk);
+        req.on('end', () => {
+            const request = { method: req.method || 'GET', url: req.url || '/', headers: req.headers, body };
+            requests.push(request);
+            Promise.resolve(handler(request, res)).catch(error => {
+                res.writeHead(500, { 'content-type': 'application/json' });
+                res.end(JSON.stringify({ error: { message: String(error) } }));
+            });
+        });
+    });
+
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    const { port } = server.address() as AddressInfo;
+
+    return {
+        url: `http://127.0.0.1:${port}`,
+        requests,
+        close: () => new Promise<void>((resolve, reject) => {
+            server.closeAllConnections?.();
+            server.close(error => error ? reject(error) : resolve());
+        })
+    };
+}
+
+/**
+ * Answer with a JSON body
+ */
+export function sendJson(response: ServerResponse, status: number, body: unknown, headers: Record<string, string> = {}): void {
+    response.writeHead(status, { 'content-type': 'application/json', ...headers });
+    response.end(JSON.stringify(body));
+}
@@ -0,0 +1,81 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { FakeTransport, LinkedInIntegration, ProviderError, ValidationError } from '../src';
+
+const IMAGE_URN = 'urn:li:image:C4E1';
+const IMAGE_STATUS = `/rest/images/${encodeURIComponent(IMAGE_URN)}`;
+const image = { type: 'image' as const, content: Buffer.from('png'), altText: 'Chart' };
+
+function linkedInWith(...statuses: string[]) {
+    const transport = new FakeTransport()
+        .respond('GET', '/v2/userinfo', { data: { sub: 'abc', name: 'Ann' } })
+        .respond('POST', '/rest/images?action=initializeUpload', {
+            data: { value: { uploadUrl: 'https://www.linkedin.com/dms-uploads/C4E1?ca=vector', image: IMAGE_URN } }
+        })
+        .respond('PUT', /^\/dms-uploads\/C4E1/, { status: 201, headers: { ETag: 'etag-1' } })
+        .respond('GET', IMAGE_STATUS, ...statuses.map(status => ({ data: { id: IMAGE_URN, status } })))
+        .respond('POST', '/rest/posts', { status: 201, headers: { 'x-restli-id': 'urn:li:share:7' } });
+    return { transport, linkedin: new LinkedInIntegration(transport, 'connection') };
+}
+
+describe('createMediaPost', () => {
+    it('publishes the post once the upload is processed', async () => {
+        const { transport, linkedin } = linkedInWith('PROCESSING', 'AVAILABLE');
+
+        const result = await linkedin.createMediaPost('Quarterly numbers', [image], 'CONNECTIONS', { pollIntervalMs: 1 });
+
+        assert.deepEqual(transport.callsTo('POST', '/rest/images?action=initializeUpload')[0].data, {
+            initializeUploadRequest: { owner: 'urn:li:person:abc' }
+        });
+        assert.deepEqual(transport.callsTo('PUT', /^\/dms-uploads\/C4E1/)[0].data, image.content);
+        assert.equal(transport.callsTo('GET', IMAGE_STATUS).length, 2);
+
+        const [post] = transport.callsTo('POST', '/rest/posts');
+        assert.deepEqual(JSON.parse(JSON.stringify(post.data)), {
+            author: 'urn:li:person:abc',
+            commentary: 'Quarterly numbers',
+            visibility: 'CONNECTIONS',
+            distribution: { feedDistribution: 'MAIN_FEED', targetEntities: [], thirdPartyDistributionChannels: [] },
+            content: { media: { id: IMAGE_URN, altText: 'Chart' } },
+            lifecycleState: 'PUBLISHED',
+            isReshareDisabledByAuthor: false
+        });
+        assert.deepEqual(result.data, {
+            postId: 'urn:li:share:7',
+            postUrl: 'https://www.linkedin.com/feed/update/urn:li:share:7/',
+            mediaIds: [IMAGE_URN]
+        });
+    });
+
+    it('does not publish when LinkedIn fails to process the upload', async () => {
+        const { transport, linkedin } = linkedInWith('PROCESSING', 'PROCESSING_FAILED');
+
+        await assert.rejects(
+            linkedin.createMediaPost('Quarterly numbers', [image], 'PUBLIC', { pollIntervalMs: 1 }),
+            (error: unknown) => error instanceof ProviderError && error.message.includes(`failed to process ${IMAGE_URN}`)
+        );
+        assert.equal(transport.callsTo('POST', '/rest/posts').length, 0);
+    });
+
+    it('gives up when the upload is not processed in time', async () => {
+        const { transport, linkedin } = linkedInWith('PROCESSING');
+
+        await assert.rejects(
+            linkedin.createMediaPost('Quarterly numbers', [image], 'PUBLIC', { pollIntervalMs: 10, processingTimeoutMs: 35 }),
+            (error: unknown) => error instanceof ProviderError && error.message.includes(`Timed out waiting for LinkedIn to process ${IMAGE_URN}`)
+        );
+
+        const polls = transport.callsTo('GET', IMAGE_STATUS).length;
+        assert.ok(polls >= 2 && polls <= 4, `polled ${polls} times`);
+        assert.equal(transport.callsTo('POST', '/rest/posts').length, 0);
+    });
+
+    it('rejects unsupported media combinations before uploading', async () => {
+        const { transport, linkedin } = linkedInWith('AVAILABLE');
+        const video = { type: 'video' as const, content: Buffer.from('mp4') };
+
+        await assert.rejects(linkedin.createMediaPost('Mixed', [image, video]), ValidationError);
+        await assert.rejects(linkedin.createMediaPost('Nothing', []), ValidationError);
+        assert.deepEqual(transport.calls, []);
+    });
+});
@@ -0,0 +1,72 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { AuthError, FakeTransport, InMemoryJobStore, KuweAI, LinkedInIntegration, Scheduler, TtlCache } from '../src';
+
+const userInfo = (sub: string) => ({ data: { sub, name: `Member ${sub}` } });
+
+function clientWith(transport: FakeTransport, connectionId: string = 'connection') {
+    return new KuweAI({ transport, connectionId, scheduler: new Scheduler({ store: new InMemoryJobStore() }) });
+}
+
+describe('LinkedIn profile cache', () => {
+    it('fetches the profile once per connection', async () => {
+        const transport = new FakeTransport().respond('GET', '/v2/userinfo', userInfo('a'), userInfo('b'));
+        const linkedin = new LinkedInIntegration(transport, 'connection');
+
+        const [first, second] = await Promise.all([linkedin.getProfile(), linkedin.getProfile()]);
+
+        assert.equal(first.data.urn, 'urn:li:person:a');
+        assert.equal(second.data.urn, 'urn:li:person:a');
+        assert.equal(transport.callsTo('GET', '/v2/userinfo').length, 1);
+        assert.equal((await linkedin.getProfile(true)).data.urn, 'urn:li:person:b');
+    });
+
+    it('is not shared between clients', async () => {
+        const first = new FakeTransport().respond('GET', '/v2/userinfo', userInfo('a'));
+        const second = new FakeTransport().respond('GET', '/v2/userinfo', userInfo('b'));
+
+        assert.equal((await clientWith(first).linkedin.getProfile()).data.id, 'a');
+        assert.equal((await clientWith(second).linkedin.getProfile()).data.id, 'b');
+    });
+
+    it('is shared with scoped clients', async () => {
+        const transport = new FakeTransport().respond('GET', '/v2/userinfo', userInfo('a'), userInfo('b'));
+        const kuwe = clientWith(transport);
+
+        await kuwe.linkedin.getProfile();
+        await kuwe.forConnection('connection').linkedin.getProfile();
+
+        assert.equal(transport.callsTo('GET', '/v2/userinfo').length, 1);
+    });
+
+    it('fetches the profile again once its TTL elapsed', async () => {
+        const transport = new FakeTransport().respond('GET', '/v2/userinfo', userInfo('a'), userInfo('b'));
+        const linkedin = new LinkedInIntegration(transport, 'connection', { profileTtlMs: -1 });
+
+        await linkedin.getProfile();
+
+        assert.equal((await linkedin.getProfile()).data.id, 'b');
+    });
+
+    it('drops the profile when the connection is rejected', async () => {
+        const profileCache = new TtlCache<unknown>();
+        const transport = new FakeTransport()
+            .respond('GET', '/v2/userinfo', userInfo('a'), userInfo('b'))
+            .respond('POST', '/rest/posts', { status: 403, data: { message: 'Not enough permissions' } });
+        const linkedin = new LinkedInIntegration(transport, 'connection', { profileCache });
+
+        await assert.rejects(linkedin.createPost({ text: 'Hello' }), AuthError);
+
+        assert.equal(profileCache.size, 0);
+        assert.equal((await linkedin.getProfile()).data.id, 'b');
+    });
+
+    it('does not cache failed lookups', async () => {
+        const transport = new FakeTransport().respond('GET', '/v2/userinfo', { status: 500 }, userInfo('a'));
+        const linkedin = new LinkedInIntegration(transport, 'connection', { retry: { maxAttempts: 1 } });
+
+        await assert.rejects(linkedin.getProfile());
+
+        assert.equal((await linkedin.getProfile()).data.id, 'a');
+    });
+});
@@ -0,0 +1,181 @@
+import { after, before, beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { ServerResponse } from 'http';
+import { PassThrough } from 'stream';
+import { KuweError, OpenAIIntegration, RateLimitError } from '../src';
+import { StubServer, sendJson, startStubServer } from './helpers/stub-server';
+
+const chunk = (choice: Record<string, unknown> | undefined, usage?: Record<string, number>) => ({
+    id: 'chatcmpl-1',
+    object: 'chat.completion.chunk',
+    created: 1,
+    model: 'gpt-4o-mini',
+    choices: choice ? [{ index: 0, ...choice }] : [],
+    ...(usage ? { usage } : {})
+});
+
+const ANSWER = [
+    chunk({ delta: { role: 'assistant', content: '' }, finish_reason: null }),
+    chunk({ delta: { content: 'Hello' }, finish_reason: null }),
+    chunk({ delta: { content: ', world' }, finish_reason: null }),
+    chunk({ delta: {}, finish_reason: 'stop' }),
+    chunk(undefined, { prompt_tokens: 9, completion_tokens: 3, total_tokens: 12 })
+];
+
+function writeEvents(response: ServerResponse, events: unknown[]) {
+    for (const event of events) {
+        response.write(`data: ${JSON.stringify(event)}\n\n`);
+    }
+}
+
+describe('streamChatCompletion against a stub OpenAI API', () => {
+    let server: StubServer;
+    let openai: OpenAIIntegration;
+    // Answers the next completion request
+    let handle: (response: ServerResponse) => void;
+
+    before(async () => {
+        server = await startStubServer((_request, response) => handle(response));
+        openai = new OpenAIIntegration('test-key', { baseURL: `${server.url}/v1` });
+    });
+
+    after(() => server.close());
+
+    beforeEach(() => {
+        server.requests.length = 0;
+        handle = response => {
+            response.writeHead(200, { 'content-type': 'text/event-stream' });
+            writeEvents(response, ANSWER);
+            response.end('data: [DONE]\n\n');
+        };
+    });
+
+    it('yields text deltas in order and aggregates the answer', async () => {
+        const stream = openai.streamChatCompletion([{ role: 'user', content: 'Hi' }], 'gpt-4o-mini', { temperature: 0 });
+
+        const deltas = [];
+        for await (const delta of stream) {
+            deltas.push(delta);
+        }
+
+        assert.deepEqual(deltas, [{ type: 'text', text: 'Hello' }, { type: 'text', text: ', world' }]);
+        assert.deepEqual(await stream.finalMessage(), {
+            id: 'chatcmpl-1',
+            model: 'gpt-4o-mini',
+            message: { role: 'assistant', content: 'Hello, world' },
+            finishReason: 'stop',
+            usage: { promptTokens: 9, completionTokens: 3, totalTokens: 12 }
+        });
+
+        const body = JSON.parse(server.requests[0].body);
+        assert.equal(body.stream, true);
+        assert.deepEqual(body.stream_options, { include_usage: true });
+        assert.equal(body.temperature, 0);
+    });
+
+    it('only sends the request once the stream is consumed', async () => {
+        const stream = openai.streamChatCompletion([{ role: 'user', content: 'Hi' }]);
+        await new Promise(resolve => setImmediate(resolve));
+        assert.equal(server.requests.length, 0);
+
+        const result = await stream.finalMessage();
+
+        assert.equal(result.message.content, 'Hello, world');
+        assert.equal(server.requests.length, 1);
+        await assert.rejects(stream[Symbol.asyncIterator]().next(), /already been consumed/);
+    });
+
+    it('pipes the text to a Node stream', async () => {
+        const destination = new PassThrough();
+        let written = '';
+        destination.setEncoding('utf8');
+        destination.on('data', text => written += text);
+
+        const result = await openai.streamChatCompletion([{ role: 'user', content: 'Hi' }]).pipeTo(destination);
+
+        assert.equal(written, 'Hello, world');
+        assert.equal(destination.writableEnded, true);
+        assert.equal(result.usage?.totalTokens, 12);
+    });
+
+    it('throws an AbortError when aborted mid-stream', async () => {
+        handle = response => {
+            response.writeHead(200, { 'content-type': 'text/event-stream' });
+            // The rest of the answer never comes
+            writeEvents(response, ANSWER.slice(0, 2));
+        };
+        const controller = new AbortController();
+        const stream = openai.streamChatCompletion([{ role: 'user', content: 'Hi' }], 'gpt-4o-mini', { signal: controller.signal });
+
+        const texts: string[] = [];
+        await assert.rejects(async () => {
+            for await (const delta of stream) {
+                texts.push(delta.text);
+                controller.abort();
+            }
+        }, { name: 'AbortError' });
+
+        assert.deepEqual(texts, ['Hello']);
+        await assert.rejects(stream.finalMessage(), { name: 'AbortError' });
+    });
+
+    it('does not send the request when already aborted', async () => {
+        const controller = new AbortController();
+        controller.abort();
+
+        await assert.rejects(
+            openai.streamChatCompletion([{ role: 'user', content: 'Hi' }], 'gpt-4o-mini', { signal: controller.signal }).finalMessage(),
+            { name: 'AbortError' }
+        );
+        assert.equal(server.requests.length, 0);
+    });
+
+    it('converts API errors into KuweErrors', async () => {
+        handle = response => sendJson(response, 429, { error: { message: 'Rate limit reached', type: 'requests' } }, { 'retry-after-ms': '1' });
+
+        const stream = openai.streamChatCompletion([{ role: 'user', content: 'Hi' }]);
+
+        // Fails before the first delta
+        await assert.rejects(stream[Symbol.asyncIterator]().next(), (error: unknown) => {
+            assert.ok(error instanceof RateLimitError);
+            assert.equal(error.integration, 'openai');
+            assert.equal(error.status, 429);
+            return true;
+        });
+        await assert.rejects(stream.finalMessage(), RateLimitError);
+    });
+
+    it('throws a KuweError when the connection drops mid-stream', async () => {
+        handle = response => {
+            response.writeHead(200, { 'content-type': 'text/event-stream' });
+            writeEvents(response, ANSWER.slice(0, 2));
+            setImmediate(() => response.destroy());
+        };
+        const stream = openai.streamChatCompletion([{ role: 'user', content: 'Hi' }]);
+
+        const texts: string[] = [];
+        await assert.rejects(async () => {
+            for await (const delta of stream) {
+                texts.push(delta.text);
+            }
+        }, KuweError);
+
+        assert.deepEqual(texts, ['Hello']);
+        await assert.rejects(stream.finalMessage(), KuweError);
+    });
+
+    it('rejects finalMessage when the consumer stops early', async () => {
+        const stream = openai.streamChatCompletion([{ role: 'user', content: 'Hi' }]);
+
+        for await (const delta of stream) {
+            assert.equal(delta.text, 'Hello');
+            break;
+        }
+
+        await assert.rejects(stream.finalMessage(), (error: unknown) => {
+            assert.ok(error instanceof KuweError);
+            assert.match(error.message, /closed before the completion finished/);
+            return true;
+        });
+    });
+});
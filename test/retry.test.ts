@@ -0,0 +1,139 @@
+import { after, before, beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { KuweAI, ProviderError, RateLimitError, RetryAttempt, RetryPolicy, ValidationError } from '../src';
+import { getRetryDelay } from '../src/retry';
+import { StubServer, sendJson, startStubServer } from './helpers/stub-server';
+
+describe('retries against a stub Nango host', () => {
+    let server: StubServer;
+    // Statuses (and headers) answered in order, then 200
+    let script: Array<{ status: number; headers?: Record<string, string> }> = [];
+
+    before(async () => {
+        server = await startStubServer((_request, response) => {
+            const next = script.shift();
+            if (next) {
+                sendJson(response, next.status, { error: { message: `status ${next.status}` } }, next.headers);
+            } else {
+                sendJson(response, 200, { range: 'Sheet1!A1', values: [['ok']] });
+            }
+        });
+    });
+
+    after(() => server.close());
+
+    beforeEach(() => {
+        server.requests.length = 0;
+        script = [];
+    });
+
+    function client(retry: RetryPolicy = {}) {
+        return new KuweAI({
+            connectionId: 'connection',
+            secretKey: 'secret',
+            host: server.url,
+            retry: { initialDelayMs: 1, jitter: false, ...retry }
+        });
+    }
+
+    it('retries 429 and 5xx responses with exponential backoff', async () => {
+        const attempts: RetryAttempt[] = [];
+        script = [{ status: 429 }, { status: 503 }];
+
+        const result = await client({ onRetry: attempt => attempts.push(attempt) }).googleSheets.readRange('spreadsheet', 'Sheet1!A1');
+
+        assert.deepEqual(result.data.values, [['ok']]);
+        assert.equal(server.requests.length, 3);
+        assert.deepEqual(attempts.map(attempt => [attempt.attempt, attempt.delayMs, attempt.method, attempt.integration]), [
+            [1, 1, 'GET', 'google-sheet'],
+            [2, 2, 'GET', 'google-sheet']
+        ]);
+        assert.ok(attempts[0].error instanceof RateLimitError);
+        assert.ok(attempts[1].error instanceof ProviderError);
+    });
+
+    it('gives up after maxAttempts with the last error', async () => {
+        script = [{ status: 500 }, { status: 502 }, { status: 503 }];
+
+        await assert.rejects(
+            client({ maxAttempts: 2 }).googleSheets.readRange('spreadsheet', 'Sheet1!A1'),
+            (error: ProviderError) => error instanceof ProviderError && error.status === 502 && error.retryable
+        );
+        assert.equal(server.requests.length, 2);
+    });
+
+    it('waits for the delay of the Retry-After header', async () => {
+        const attempts: RetryAttempt[] = [];
+        script = [{ status: 429, headers: { 'retry-after': '1' } }];
+
+        const started = Date.now();
+        await client({ onRetry: attempt => attempts.push(attempt) }).googleSheets.readRange('spreadsheet', 'Sheet1!A1');
+
+        assert.equal(attempts[0].delayMs, 1000);
+        assert.equal(attempts[0].error.retryAfterMs, 1000);
+        assert.ok(Date.now() - started >= 950);
+        assert.equal(server.requests.length, 2);
+    });
+
+    it('gives up when Retry-After exceeds maxDelayMs', async () => {
+        script = [{ status: 429, headers: { 'retry-after': '120' } }];
+
+        await assert.rejects(
+            client({ maxDelayMs: 1000 }).googleSheets.readRange('spreadsheet', 'Sheet1!A1'),
+            (error: RateLimitError) => error instanceof RateLimitError && error.retryAfterMs === 120000
+        );
+        assert.equal(server.requests.length, 1);
+    });
+
+    it('does not retry client errors', async () => {
+        script = [{ status: 400 }];
+
+        await assert.rejects(client().googleSheets.readRange('spreadsheet', 'Sheet1!A1'), ValidationError);
+        assert.equal(server.requests.length, 1);
+    });
+
+    it('retries non-idempotent requests only when opted in', async () => {
+        script = [{ status: 503 }];
+        await assert.rejects(client().googleSheets.appendValues('spreadsheet', 'Sheet1', [['a']]), ProviderError);
+        assert.equal(server.requests.length, 1);
+
+        server.requests.length = 0;
+        script = [{ status: 503 }];
+        await client({ retryNonIdempotent: true }).googleSheets.appendValues('spreadsheet', 'Sheet1', [['a']]);
+        assert.deepEqual(server.requests.map(request => request.method), ['POST', 'POST']);
+    });
+
+    it('applies per-integration policies over the client policy', async () => {
+        script = [{ status: 503 }];
+        const kuwe = new KuweAI({
+            connectionId: 'connection',
+            secretKey: 'secret',
+            host: server.url,
+            retry: { initialDelayMs: 1, jitter: false },
+            integrations: { 'google-sheet': { retry: { maxAttempts: 1 } } }
+        });
+
+        await assert.rejects(kuwe.googleSheets.readRange('spreadsheet', 'Sheet1!A1'), ProviderError);
+        assert.equal(server.requests.length, 1);
+    });
+});
+
+describe('getRetryDelay', () => {
+    const rateLimited = new RateLimitError('slow down', { integration: 'test', status: 429 });
+
+    it('keeps jittered delays between half and all of the backoff', () => {
+        for (let i = 0; i < 20; i++) {
+            const delay = getRetryDelay({ initialDelayMs: 100 }, 2, 'GET', rateLimited)!;
+            assert.ok(delay >= 100 && delay <= 200, `${delay}`);
+        }
+    });
+
+    it('caps the backoff at maxDelayMs', () => {
+        assert.equal(getRetryDelay({ initialDelayMs: 100, maxDelayMs: 250, jitter: false, maxAttempts: 10 }, 5, 'GET', rateLimited), 250);
+    });
+
+    it('ignores Retry-After when respectRetryAfter is false', () => {
+        const error = new RateLimitError('slow down', { integration: 'test', status: 429, retryAfterMs: 60000 });
+        assert.equal(getRetryDelay({ initialDelayMs: 10, jitter: false, respectRetryAfter: false }, 1, 'GET', error), 10);
+    });
+});
@@ -0,0 +1,307 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import {
+    FakeTransport,
+    FileJobStore,
+    InMemoryJobStore,
+    KuweAI,
+    ManualClock,
+    ProviderError,
+    RateLimitError,
+    RetryPolicy,
+    ScheduledJob,
+    Scheduler,
+    ValidationError
+} from '../src';
+
+const START = Date.UTC(2027, 0, 1);
+
+/** Let the store calls started by the scheduler's timers settle */
+const settle = () => new Promise(resolve => setImmediate(resolve));
+
+function schedulerWith(options: { retry?: RetryPolicy } = {}) {
+    const clock = new ManualClock(START);
+    const finished: ScheduledJob[] = [];
+    const scheduler = new Scheduler({
+        store: new InMemoryJobStore(),
+        clock,
+        pollIntervalMs: 60000,
+        onJobFinished: job => finished.push(job),
+        ...options
+    });
+    return { clock, scheduler, finished };
+}
+
+describe('Scheduler', () => {
+    it('runs jobs once they are due', async () => {
+        const { clock, scheduler, finished } = schedulerWith();
+        const payloads: unknown[] = [];
+        scheduler.register('greet', async (payload: { name: string }) => {
+            payloads.push(payload);
+            return `Hello ${payload.name}`;
+        });
+        const job = await scheduler.schedule('greet', { name: 'Ada' }, START + 1000);
+
+        assert.deepEqual(await scheduler.runDue(), []);
+        clock.advance(1000);
+        const [ran] = await scheduler.runDue();
+
+        assert.deepEqual(payloads, [{ name: 'Ada' }]);
+        assert.equal(ran.id, job.id);
+        assert.equal(ran.status, 'succeeded');
+        assert.equal(ran.result, 'Hello Ada');
+        assert.equal(ran.attempts, 1);
+        assert.deepEqual(finished.map(entry => entry.id), [job.id]);
+    });
+
+    it('retries retryable failures after the delay asked by the provider', async () => {
+        const { clock, scheduler, finished } = schedulerWith();
+        let calls = 0;
+        scheduler.register('post', async () => {
+            if (++calls === 1) {
+                throw new RateLimitError('Too many requests', { integration: 'linkedin', status: 429, retryAfterMs: 120000 });
+            }
+            return 'posted';
+        });
+        const job = await scheduler.schedule('post', {}, START);
+
+        const [retrying] = await scheduler.runDue();
+        assert.equal(retrying.status, 'pending');
+        assert.equal(retrying.runAt, START + 120000);
+        assert.equal(retrying.lastError?.name, 'RateLimitError');
+        assert.equal(finished.length, 0);
+
+        clock.advance(119999);
+        assert.deepEqual(await scheduler.runDue(), []);
+        clock.advance(1);
+        const [ran] = await scheduler.runDue();
+
+        assert.equal(ran.status, 'succeeded');
+        assert.equal(ran.attempts, 2);
+        assert.equal((await scheduler.get(job.id)).lastError, undefined);
+    });
+
+    it('fails jobs for good on errors the provider may have acted on', async () => {
+        const { scheduler, finished } = schedulerWith();
+        scheduler.register('invalid', async () => {
+            throw new ValidationError('Post too long', { integration: 'linkedin' });
+        });
+        scheduler.register('flaky', async () => {
+            throw new ProviderError('Bad gateway', { integration: 'linkedin', status: 502, retryable: true });
+        });
+        await scheduler.schedule('invalid', {}, START, { id: 'invalid' });
+        await scheduler.schedule('flaky', {}, START, { id: 'flaky' });
+
+        await scheduler.runDue();
+
+        assert.equal((await scheduler.get('invalid')).status, 'failed');
+        assert.equal((await scheduler.get('flaky')).status, 'failed');
+        assert.equal((await scheduler.get('flaky')).attempts, 1);
+        assert.deepEqual(finished.map(job => job.id), ['invalid', 'flaky']);
+    });
+
+    it('retries server errors up to the last attempt when allowed', async () => {
+        const { clock, scheduler } = schedulerWith({ retry: { maxAttempts: 2, retryNonIdempotent: true } });
+        scheduler.register('flaky', async () => {
+            throw new ProviderError('Bad gateway', { integration: 'linkedin', status: 502, retryable: true });
+        });
+        await scheduler.schedule('flaky', {}, START, { id: 'flaky' });
+
+        assert.equal((await scheduler.runDue())[0].status, 'pending');
+        clock.advance(60000);
+        await scheduler.runDue();
+
+        assert.equal((await scheduler.get('flaky')).status, 'failed');
+        assert.equal((await scheduler.get('flaky')).attempts, 2);
+    });
+
+    it('retries refused connections', async () => {
+        const { clock, scheduler } = schedulerWith();
+        let calls = 0;
+        scheduler.register('post', async () => {
+            if (++calls === 1) {
+                throw Object.assign(new Error('connect ECONNREFUSED'), { code: 'ECONNREFUSED' });
+            }
+            return 'posted';
+        });
+        await scheduler.schedule('post', {}, START, { id: 'job' });
+
+        assert.equal((await scheduler.runDue())[0].status, 'pending');
+        clock.advance(60000);
+
+        assert.equal((await scheduler.runDue())[0].status, 'succeeded');
+    });
+
+    it('fails jobs without a handler', async () => {
+        const { scheduler } = schedulerWith();
+        await scheduler.schedule('unknown', {}, START, { id: 'job' });
+
+        const [ran] = await scheduler.runDue();
+
+        assert.equal(ran.status, 'failed');
+        assert.match(ran.lastError!.message, /No handler registered for job type unknown/);
+    });
+
+    it('cancels and reschedules pending jobs', async () => {
+        const { clock, scheduler } = schedulerWith();
+        const runs: string[] = [];
+        scheduler.register('task', async (_payload, job) => runs.push(job.id));
+        await scheduler.schedule('task', {}, START + 1000, { id: 'cancelled' });
+        await scheduler.schedule('task', {}, START + 1000, { id: 'moved' });
+
+        await scheduler.cancel('cancelled');
+        await scheduler.reschedule('moved', START + 5000);
+        clock.advance(1000);
+        assert.deepEqual(await scheduler.runDue(), []);
+        clock.advance(4000);
+        await scheduler.runDue();
+
+        assert.deepEqual(runs, ['moved']);
+        await assert.rejects(scheduler.cancel('cancelled'), ValidationError);
+        await assert.rejects(scheduler.reschedule('moved', START), ValidationError);
+        // Cancelled jobs can be run again
+        assert.equal((await scheduler.reschedule('cancelled', START)).status, 'pending');
+    });
+
+    it('rejects duplicate job IDs and invalid dates', async () => {
+        const { scheduler } = schedulerWith();
+        await scheduler.schedule('task', {}, START, { id: 'job' });
+
+        await assert.rejects(scheduler.schedule('task', {}, START, { id: 'job' }), ValidationError);
+        await assert.rejects(scheduler.schedule('task', {}, new Date('invalid')), ValidationError);
+    });
+
+    it('runs due jobs in the background until stopped', async () => {
+        const { clock, scheduler, finished } = schedulerWith();
+        scheduler.register('task', async () => 'done');
+        await scheduler.schedule('task', {}, START + 5000, { id: 'first' });
+
+        await scheduler.start();
+        await settle();
+        clock.advance(5000);
+        await settle();
+        assert.deepEqual(finished.map(job => job.id), ['first']);
+
+        // Jobs scheduled while started set the timer
+        await scheduler.schedule('task', {}, START + 10000, { id: 'second' });
+        await settle();
+        clock.advance(5000);
+        await settle();
+        assert.deepEqual(finished.map(job => job.id), ['first', 'second']);
+
+        scheduler.stop();
+        assert.equal(clock.pendingTimers, 0);
+        await scheduler.schedule('task', {}, START + 15000, { id: 'third' });
+        clock.advance(60000);
+        await settle();
+        assert.equal((await scheduler.get('third')).status, 'pending');
+    });
+
+    it('leaves the jobs another scheduler is running to it', async () => {
+        const store = new InMemoryJobStore();
+        const clock = new ManualClock(START);
+        const publishing = new Scheduler({ store, clock, leaseMs: 30000 });
+        const starting = new Scheduler({ store, clock, leaseMs: 30000 });
+        let finish!: (value: string) => void;
+        publishing.register('post', () => new Promise(resolve => finish = resolve));
+        await publishing.schedule('post', {}, START, { id: 'job' });
+
+        const run = publishing.runDue();
+        await settle();
+        const running = await store.get('job');
+        assert.equal(running?.status, 'running');
+        assert.equal(running?.lockedBy, publishing.id);
+
+        // The lease is renewed while the job runs, past its initial expiry
+        clock.advance(90000);
+        await settle();
+        await starting.start();
+        starting.stop();
+        assert.equal((await store.get('job'))?.status, 'running');
+
+        finish('posted');
+        const [ran] = await run;
+        assert.equal(ran.status, 'succeeded');
+        assert.equal(ran.lockedBy, undefined);
+        assert.equal((await store.get('job'))?.status, 'succeeded');
+        assert.equal(clock.pendingTimers, 0);
+    });
+
+    it('fails running jobs whose lease expired on start', async () => {
+        const store = new InMemoryJobStore();
+        const base = { type: 'task', payload: {}, status: 'running' as const, runAt: START, attempts: 1, createdAt: START, updatedAt: START };
+        await store.save({ ...base, id: 'expired', lockedBy: 'gone', lockedUntil: START - 1 });
+        await store.save({ ...base, id: 'leased', lockedBy: 'other', lockedUntil: START + 1000 });
+        const scheduler = new Scheduler({ store, clock: new ManualClock(START) });
+
+        await scheduler.start();
+        scheduler.stop();
+
+        assert.equal((await scheduler.get('expired')).status, 'failed');
+        assert.equal((await scheduler.get('expired')).lockedBy, undefined);
+        assert.equal((await scheduler.get('leased')).status, 'running');
+    });
+
+    it('marks jobs interrupted by a stopped process as failed on start', async () => {
+        const store = new InMemoryJobStore();
+        await store.save({ id: 'job', type: 'task', payload: {}, status: 'running', runAt: START, attempts: 1, createdAt: START, updatedAt: START });
+        const scheduler = new Scheduler({ store, clock: new ManualClock(START) });
+
+        await scheduler.start();
+        scheduler.stop();
+
+        const job = await scheduler.get('job');
+        assert.equal(job.status, 'failed');
+        assert.equal(job.lastError?.name, 'InterruptedError');
+    });
+});
+
+describe('FileJobStore', () => {
+    let directory: string;
+    let cwd: string;
+
+    before(async () => {
+        directory = await fs.mkdtemp(path.join(os.tmpdir(), 'kuwe-jobs-'));
+        cwd = process.cwd();
+        process.chdir(directory);
+    });
+
+    after(async () => {
+        process.chdir(cwd);
+        await fs.rm(directory, { recursive: true, force: true });
+    });
+
+    it('keeps jobs across instances', async () => {
+        const file = path.join(directory, 'persisted', 'jobs.json');
+        const scheduler = new Scheduler({ store: new FileJobStore(file), clock: new ManualClock(START) });
+        await scheduler.schedule('task', { value: 1 }, START, { id: 'job' });
+
+        const reloaded = await new FileJobStore(file).get('job');
+
+        assert.deepEqual(reloaded?.payload, { value: 1 });
+        assert.equal(reloaded?.status, 'pending');
+    });
+
+    it('shares one store per file', () => {
+        assert.equal(FileJobStore.forFile('shared.json'), FileJobStore.forFile(path.join(directory, 'shared.json')));
+        assert.notEqual(FileJobStore.forFile('shared.json'), FileJobStore.forFile('other.json'));
+    });
+
+    it('keeps the jobs of every client using the default store', async () => {
+        const transport = new FakeTransport();
+        const first = new KuweAI({ transport, connectionId: 'first' });
+        const second = new KuweAI({ transport, connectionId: 'second' });
+
+        await Promise.all([
+            first.scheduler.schedule('task', {}, START, { id: 'from-first' }),
+            second.scheduler.schedule('task', {}, START, { id: 'from-second' })
+        ]);
+
+        const saved = JSON.parse(await fs.readFile(path.join(directory, '.kuwe', 'jobs.json'), 'utf8')) as { jobs: ScheduledJob[] };
+        assert.deepEqual(saved.jobs.map(job => job.id).sort(), ['from-first', 'from-second']);
+        assert.deepEqual((await second.scheduler.list()).map(job => job.id).sort(), ['from-first', 'from-second']);
+    });
+});
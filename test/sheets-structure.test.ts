@@ -0,0 +1,84 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { FakeTransport, GoogleSheetsIntegration, RecordedCall, ValidationError } from '../src';
+
+const BATCH_UPDATE = '/v4/spreadsheets/report-id:batchUpdate';
+
+function sheetsWith() {
+    const transport = new FakeTransport()
+        .respond('GET', /\/v4\/spreadsheets\/report-id\?fields=/, {
+            data: { sheets: [{ properties: { sheetId: 5, title: 'Summary', index: 0 } }, { properties: { sheetId: 9, title: 'Report', index: 1 } }] }
+        })
+        .respond('POST', BATCH_UPDATE, { data: { spreadsheetId: 'report-id', replies: [{}] } });
+    return { transport, sheets: new GoogleSheetsIntegration(transport, 'connection') };
+}
+
+/**
+ * Requests of the batch update as sent over the wire, where undefined bounds are dropped
+ */
+function sentRequests(call: RecordedCall) {
+    return JSON.parse(JSON.stringify(call.data)).requests;
+}
+
+describe('formatRange', () => {
+    it('formats a whole row, column or open-ended range', async () => {
+        const { transport, sheets } = sheetsWith();
+
+        await sheets.formatRange('report-id', 'Report!1:1', { bold: true, backgroundColor: '#fff' });
+        await sheets.formatRange('report-id', 'Report!C:C', { numberFormat: { type: 'CURRENCY', pattern: '$#,##0.00' } });
+        await sheets.formatRange('report-id', 'Report!A2:D', { wrap: true });
+
+        const [header, column, body] = transport.callsTo('POST', BATCH_UPDATE).map(sentRequests);
+        assert.deepEqual(header, [{
+            repeatCell: {
+                range: { sheetId: 9, startRowIndex: 0, endRowIndex: 1 },
+                cell: { userEnteredFormat: { textFormat: { bold: true }, backgroundColor: { red: 1, green: 1, blue: 1 } } },
+                fields: 'userEnteredFormat.textFormat.bold,userEnteredFormat.backgroundColor'
+            }
+        }]);
+        assert.deepEqual(column[0].repeatCell.range, { sheetId: 9, startColumnIndex: 2, endColumnIndex: 3 });
+        assert.equal(column[0].repeatCell.fields, 'userEnteredFormat.numberFormat');
+        assert.deepEqual(body[0].repeatCell, {
+            range: { sheetId: 9, startRowIndex: 1, startColumnIndex: 0, endColumnIndex: 4 },
+            cell: { userEnteredFormat: { wrapStrategy: 'WRAP' } },
+            fields: 'userEnteredFormat.wrapStrategy'
+        });
+    });
+
+    it('formats ranges without a sheet on the first sheet', async () => {
+        const { transport, sheets } = sheetsWith();
+
+        await sheets.formatRange('report-id', 'B3', { horizontalAlignment: 'CENTER' });
+
+        const [request] = sentRequests(transport.callsTo('POST', BATCH_UPDATE)[0]);
+        assert.deepEqual(request.repeatCell.range, { sheetId: 5, startRowIndex: 2, endRowIndex: 3, startColumnIndex: 1, endColumnIndex: 2 });
+    });
+
+    it('rejects an empty format without calling Sheets', async () => {
+        const { transport, sheets } = sheetsWith();
+
+        await assert.rejects(sheets.formatRange('report-id', 'Report!A1', {}), ValidationError);
+        assert.equal(transport.callsTo('POST', BATCH_UPDATE).length, 0);
+    });
+});
+
+describe('addConditionalColor', () => {
+    it('colors the matching cells of a whole column', async () => {
+        const { transport, sheets } = sheetsWith();
+
+        await sheets.addConditionalColor('report-id', 'Report!E:E', { condition: 'NUMBER_LESS', values: ['0'], textColor: '#c00', bold: true });
+
+        assert.deepEqual(sentRequests(transport.callsTo('POST', BATCH_UPDATE)[0]), [{
+            addConditionalFormatRule: {
+                index: 0,
+                rule: {
+                    ranges: [{ sheetId: 9, startColumnIndex: 4, endColumnIndex: 5 }],
+                    booleanRule: {
+                        condition: { type: 'NUMBER_LESS', values: [{ userEnteredValue: '0' }] },
+                        format: { textFormat: { foregroundColor: { red: 0.8, green: 0, blue: 0 }, bold: true } }
+                    }
+                }
+            }
+        }]);
+    });
+});
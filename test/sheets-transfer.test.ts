@@ -0,0 +1,148 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { createReadStream, readFileSync } from 'fs';
+import * as path from 'path';
+import { PassThrough } from 'stream';
+import { FakeTransport, GoogleSheetsIntegration, RecordedCall, parseA1 } from '../src';
+
+const FIXTURES = path.join(__dirname, '../../test/fixtures/sheets');
+const fixture = (name: string) => readFileSync(path.join(FIXTURES, name), 'utf8');
+
+/**
+ * Answer values:batchGet like Sheets does for a sheet holding `grid`:
+ * trailing empty rows and trailing empty cells of each row are omitted
+ */
+function serveValues(grid: string[][]) {
+    return (call: RecordedCall) => {
+        const query = new URLSearchParams(call.endpoint.split('?')[1]);
+        const range = parseA1(query.get('ranges')!);
+        const firstColumn = (range.startColumn ?? 1) - 1;
+        const rows = grid
+            .slice((range.startRow ?? 1) - 1, range.endRow)
+            .map(cells => cells.slice(firstColumn, range.endColumn));
+
+        const values = rows.map(cells => {
+            const trimmed = [...cells];
+            while (trimmed.length > 0 && trimmed[trimmed.length - 1] === '') trimmed.pop();
+            return trimmed;
+        });
+        while (values.length > 0 && values[values.length - 1].length === 0) values.pop();
+
+        return { data: { valueRanges: [{ range: query.get('ranges'), majorDimension: 'ROWS', ...(values.length > 0 ? { values } : {}) }] } };
+    };
+}
+
+function sheetsWith(grid: string[][], rowCount: number) {
+    const transport = new FakeTransport()
+        .respond('GET', /values:batchGet/, serveValues(grid))
+        .respond('GET', /\/v4\/spreadsheets\/orders-id\?fields=/, {
+            data: { sheets: [{ properties: { sheetId: 0, title: 'Orders', index: 0, gridProperties: { rowCount, columnCount: 26 } } }] }
+        });
+    return { transport, sheets: new GoogleSheetsIntegration(transport, 'connection') };
+}
+
+async function exportToString(sheets: GoogleSheetsIntegration, range: string, options: Parameters<GoogleSheetsIntegration['exportRange']>[3]) {
+    const destination = new PassThrough();
+    let output = '';
+    destination.setEncoding('utf8');
+    destination.on('data', chunk => output += chunk);
+
+    const result = await sheets.exportRange('orders-id', range, destination, options);
+    return { output, progress: result.data };
+}
+
+describe('exportRange', () => {
+    const grid: string[][] = JSON.parse(fixture('orders-sheet.json'));
+
+    it('exports the rows after empty rows that end a chunk', async () => {
+        const { transport, sheets } = sheetsWith(grid, 12);
+
+        const { output, progress } = await exportToString(sheets, 'Orders', { format: 'csv', chunkRows: 5 });
+
+        assert.equal(output, fixture('orders-export.csv'));
+        // Grid properties, then rows 1-5, 6-10 and 11-12
+        assert.equal(transport.callsTo('GET', /values:batchGet/).length, 3);
+        assert.deepEqual(progress, { rows: 7, requests: 4 });
+    });
+
+    it('pads CSV rows to the width of the first row', async () => {
+        const { sheets } = sheetsWith([['id', 'name', 'total'], ['1'], [], ['2', 'Bob']], 12);
+
+        const { output } = await exportToString(sheets, 'Orders', { format: 'csv', chunkRows: 2 });
+
+        assert.equal(output, 'id,name,total\r\n1,,\r\n,,\r\n2,Bob,\r\n');
+    });
+
+    it('pads CSV rows to the width of a bounded range', async () => {
+        const { transport, sheets } = sheetsWith([['a'], ['b', 'c']], 12);
+
+        const { output } = await exportToString(sheets, 'Orders!A1:C2', { format: 'csv' });
+
+        assert.equal(output, 'a,,\r\nb,c,\r\n');
+        // The range bounds the rows, the sheet size is not needed
+        assert.equal(transport.callsTo('GET', /fields=/).length, 0);
+    });
+
+    it('exports JSON lines keyed by the first row', async () => {
+        const { sheets } = sheetsWith(grid, 12);
+
+        const { output } = await exportToString(sheets, 'Orders', { format: 'jsonl', chunkRows: 5 });
+
+        assert.equal(output, fixture('orders-export.jsonl'));
+    });
+
+    it('stops at the last row of the sheet', async () => {
+        const { transport, sheets } = sheetsWith(grid.slice(0, 3), 3);
+
+        const progress: number[] = [];
+        await exportToString(sheets, 'Orders', { format: 'csv', chunkRows: 2, onProgress: ({ rows }) => progress.push(rows) });
+
+        assert.deepEqual(transport.callsTo('GET', /values:batchGet/).map(call => new URLSearchParams(call.endpoint.split('?')[1]).get('ranges')), [
+            'Orders!A1:ZZZ2',
+            'Orders!A3:ZZZ3'
+        ]);
+        assert.deepEqual(progress, [2, 3]);
+    });
+
+    it('leaves the destination open when asked', async () => {
+        const { sheets } = sheetsWith(grid, 12);
+        const destination = new PassThrough();
+
+        await sheets.exportRange('orders-id', 'Orders!A1:D1', destination, { format: 'csv', end: false });
+
+        assert.equal(destination.writableEnded, false);
+        destination.end();
+    });
+});
+
+describe('importCsv', () => {
+    it('appends the parsed rows of a file in chunks', async () => {
+        const transport = new FakeTransport().respond('POST', /:append/, { data: {} });
+        const sheets = new GoogleSheetsIntegration(transport, 'connection');
+
+        const { data } = await sheets.importCsv('products-id', 'Products', createReadStream(path.join(FIXTURES, 'products-import.csv'), { highWaterMark: 7 }), {
+            delimiter: ';',
+            chunkRows: 3
+        });
+
+        const batches = transport.calls.map(call => (call.data as { values: string[][] }).values);
+        assert.deepEqual(batches.map(batch => batch.length), [3, 1]);
+        assert.deepEqual(([] as string[][]).concat(...batches), JSON.parse(fixture('products-import.json')));
+        assert.deepEqual(data, { rows: 4, requests: 2 });
+    });
+
+    it('overwrites from the start row', async () => {
+        const transport = new FakeTransport().respond('POST', /values:batchUpdate/, { data: {} });
+        const sheets = new GoogleSheetsIntegration(transport, 'connection');
+
+        await sheets.importCsv('products-id', 'Staging', createReadStream(path.join(FIXTURES, 'products-import.csv')), {
+            delimiter: ';',
+            mode: 'overwrite',
+            startRow: 2,
+            chunkRows: 2
+        });
+
+        const ranges = transport.calls.map(call => (call.data as { data: Array<{ range: string }> }).data[0].range);
+        assert.deepEqual(ranges, ['Staging!A2', 'Staging!A4']);
+    });
+});
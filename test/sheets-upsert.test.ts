@@ -0,0 +1,131 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { FakeTransport, GoogleSheetsIntegration, ValidationError } from '../src';
+import { planUpsert } from '../src/integrations/google-sheets/upsert';
+
+const HEADERS = ['Email', 'Name', 'Score', 'Active'];
+
+/**
+ * Serve `grid` (header row first) as the unformatted values of the Contacts sheet
+ */
+function sheetsWith(grid: unknown[][]) {
+    const transport = new FakeTransport()
+        .respond('GET', /\/values\/Contacts!A1/, { data: { range: 'Contacts!A1:ZZZ', values: grid } })
+        .respond('GET', /\/v4\/spreadsheets\/contacts-id\?fields=/, {
+            data: { sheets: [{ properties: { sheetId: 7, title: 'Contacts', index: 0 } }] }
+        })
+        .respond('POST', /values:batchUpdate/, { data: {} })
+        .respond('POST', /:batchUpdate$/, { data: {} })
+        .respond('POST', /:append/, { data: {} });
+    return { transport, sheets: new GoogleSheetsIntegration(transport, 'connection') };
+}
+
+describe('planUpsert', () => {
+    it('leaves cells holding the value the input would be read as', () => {
+        const rows = [
+            ['a@example.com', 'Ada', 12.5, true],
+            ['b@example.com', 'Bob', 1000, false],
+            ['c@example.com', 'Cy', '42', 'TRUE']
+        ];
+        const plan = planUpsert(HEADERS, rows, 2, 'Email', [
+            { Email: 'a@example.com', Score: '12.50', Active: 'TRUE' },
+            { Email: 'b@example.com', Score: '1,000', Active: 'false' },
+            { Email: 'c@example.com', Score: 42, Active: true }
+        ]);
+
+        assert.deepEqual(plan.updates, []);
+        assert.deepEqual(plan.result.unchanged, ['a@example.com', 'b@example.com', 'c@example.com']);
+    });
+
+    it('writes the cells whose value changes', () => {
+        const plan = planUpsert(HEADERS, [['a@example.com', 'Ada', 12.5, true]], 2, 'Email', [
+            { Email: 'a@example.com', Name: 'ada', Score: '12.51', Active: 'no' }
+        ]);
+
+        assert.deepEqual(plan.updates, [{ rowNumber: 2, column: 2, values: ['ada', '12.51', 'no'] }]);
+        assert.equal(plan.result.updatedCells, 3);
+    });
+
+    it('compares cells as the column types of the schema', () => {
+        const rows = [['a@example.com', 'Ada', ' 7 ', 1]];
+        const records = [{ Email: 'a@example.com', Score: 7, Active: 'yes' }];
+
+        assert.deepEqual(planUpsert(HEADERS, rows, 2, 'Email', records).updates, [{ rowNumber: 2, column: 4, values: ['yes'] }]);
+        assert.deepEqual(planUpsert(HEADERS, rows, 2, 'Email', records, false, { Score: 'number', Active: 'boolean' }).updates, []);
+    });
+
+    it('compares written dates with serial numbers', () => {
+        const plan = planUpsert(['Email', 'Joined'], [['a@example.com', 45292.5]], 2, 'Email', [
+            { Email: 'a@example.com', Joined: new Date('2024-01-01T12:00:00Z') }
+        ]);
+
+        assert.deepEqual(plan.result.unchanged, ['a@example.com']);
+    });
+
+    it('rejects duplicate input keys', () => {
+        const rows = [['a@example.com', 'Ada'], ['b@example.com', 'Bob']];
+        const records = [{ Email: 'a@example.com', Name: 'Ada' }, { Email: 'a@example.com', Name: 'Ada L.' }];
+
+        assert.throws(() => planUpsert(HEADERS, rows, 2, 'Email', records), /a@example\.com/);
+        assert.throws(() => planUpsert(HEADERS, rows, 2, 'Email', records, true), /a@example\.com/);
+    });
+});
+
+describe('upsertRows', () => {
+    const grid = [
+        HEADERS,
+        ['a@example.com', 'Ada', 12.5, true],
+        ['b@example.com', 'Bob', 3, false],
+        ['c@example.com', 'Cy', 4, false],
+        ['d@example.com', 'Di', 5, true]
+    ];
+
+    it('updates changed cells, deletes missing rows from the bottom and appends new ones', async () => {
+        const { transport, sheets } = sheetsWith(grid);
+
+        const result = await sheets.upsertRows('contacts-id', 'Contacts', 'Email', [
+            { Email: 'a@example.com', Score: '12.50', Active: 'TRUE' },
+            { Email: 'c@example.com', Name: 'Cyd', Score: 4 },
+            { Email: 'e@example.com', Name: 'Eve', Score: 6, Active: false }
+        ], { deleteMissing: true });
+
+        assert.deepEqual(result.data, {
+            inserted: ['e@example.com'],
+            updated: ['c@example.com'],
+            unchanged: ['a@example.com'],
+            deleted: ['b@example.com', 'd@example.com'],
+            updatedCells: 1
+        });
+
+        const [update] = transport.callsTo('POST', /values:batchUpdate/);
+        assert.deepEqual(update.data, {
+            valueInputOption: 'USER_ENTERED',
+            data: [{ range: 'Contacts!B4', majorDimension: 'ROWS', values: [['Cyd']] }]
+        });
+
+        const [deletion] = transport.callsTo('POST', /contacts-id:batchUpdate$/);
+        assert.deepEqual(deletion.data, {
+            requests: [
+                { deleteDimension: { range: { sheetId: 7, dimension: 'ROWS', startIndex: 4, endIndex: 5 } } },
+                { deleteDimension: { range: { sheetId: 7, dimension: 'ROWS', startIndex: 2, endIndex: 3 } } }
+            ]
+        });
+
+        const [append] = transport.callsTo('POST', /:append/);
+        assert.deepEqual((append.data as { values: unknown[][] }).values, [['e@example.com', 'Eve', 6, false]]);
+        assert.ok(transport.calls.indexOf(deletion) < transport.calls.indexOf(append));
+    });
+
+    it('writes nothing when the input has duplicate keys and deleteMissing is set', async () => {
+        const { transport, sheets } = sheetsWith(grid);
+
+        await assert.rejects(
+            sheets.upsertRows('contacts-id', 'Contacts', 'Email', [
+                { Email: 'a@example.com', Name: 'Ada' },
+                { Email: 'a@example.com', Name: 'Ada L.' }
+            ], { deleteMissing: true }),
+            ValidationError
+        );
+        assert.deepEqual(transport.calls.map(call => call.method), ['GET']);
+    });
+});